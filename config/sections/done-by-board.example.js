@@ -0,0 +1,20 @@
+// A custom report section: one function expression, called with the filtered sprint summaries
+// and the helpers escapeHtml, formatIssueKey, formatDate, sprintLabel and filters, returning HTML
+(sprints, { escapeHtml }) => {
+  const boards = {};
+  sprints.filter(sprint => !sprint.error).forEach(sprint => {
+    const board = boards[sprint.boardName] = boards[sprint.boardName] || { sprints: 0, total: 0, done: 0 };
+    board.sprints += 1;
+    board.total += sprint.totalIssues;
+    board.done += sprint.completedIssues;
+  });
+
+  const rows = Object.entries(boards).map(([name, board]) => `
+    <tr>
+      <td>${escapeHtml(name)}</td>
+      <td>${board.sprints}</td>
+      <td>${board.done} / ${board.total}</td>
+      <td>${board.total ? Math.round((board.done / board.total) * 100) : 0}%</td>
+    </tr>`);
+  return `<table><tr><th>Board</th><th>Sprints</th><th>Done</th><th>%</th></tr>${rows.join('')}</table>`;
+}
@@ -0,0 +1,133 @@
+import * as path from 'path';
+import { readJsonConfig } from './config';
+import { JiraSprint } from './jira/types';
+
+// When the team works: dates are compared as calendar days in its time zone
+export interface TeamCalendar {
+  // IANA time zone, e.g. "Europe/Berlin"
+  timeZone: string;
+  // ISO weekdays, 1 = Monday ... 7 = Sunday
+  workingDays: number[];
+  // Days off as YYYY-MM-DD
+  holidays: string[];
+}
+
+// First and last working day of a sprint, as YYYY-MM-DD in the team time zone
+export interface SprintDays {
+  first: string;
+  last: string;
+}
+
+export const DEFAULT_TEAM_CALENDAR: TeamCalendar = {
+  timeZone: 'UTC',
+  workingDays: [1, 2, 3, 4, 5],
+  holidays: []
+};
+
+export const DEFAULT_CALENDAR_CONFIG_PATH = path.join('config', 'calendar.json');
+
+const DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Check the shape of a parsed calendar config, throwing with every problem found. Missing keys keep their default.
+export function validateCalendarConfig(value: unknown): TeamCalendar {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new Error('Invalid calendar config: expected an object with "timeZone", "workingDays" and/or "holidays"');
+  }
+
+  const errors: string[] = [];
+  const { timeZone, workingDays, holidays, ...rest } = value as { [name: string]: unknown };
+  Object.keys(rest).forEach(name => errors.push(`unknown key "${name}"`));
+
+  if (timeZone !== undefined && (typeof timeZone !== 'string' || !isValidTimeZone(timeZone))) {
+    errors.push(`timeZone must be an IANA time zone such as "Europe/Berlin", got ${JSON.stringify(timeZone)}`);
+  }
+
+  if (workingDays !== undefined &&
+    (!Array.isArray(workingDays) || !workingDays.length ||
+      workingDays.some(day => !Number.isInteger(day) || day < 1 || day > 7))) {
+    errors.push('workingDays must be a non-empty array of ISO weekdays (1 = Monday ... 7 = Sunday)');
+  }
+
+  if (holidays !== undefined) {
+    if (!Array.isArray(holidays)) {
+      errors.push('holidays must be an array of dates (YYYY-MM-DD)');
+    } else {
+      holidays
+        .filter(day => typeof day !== 'string' || !DAY_PATTERN.test(day) || isNaN(Date.parse(day)))
+        .forEach(day => errors.push(`holidays: ${JSON.stringify(day)} is not a date (YYYY-MM-DD)`));
+    }
+  }
+
+  if (errors.length) {
+    throw new Error(`Invalid calendar config:\n  - ${errors.join('\n  - ')}`);
+  }
+
+  return {
+    timeZone: (timeZone as string | undefined) || DEFAULT_TEAM_CALENDAR.timeZone,
+    workingDays: (workingDays as number[] | undefined) || DEFAULT_TEAM_CALENDAR.workingDays,
+    holidays: (holidays as string[] | undefined) || DEFAULT_TEAM_CALENDAR.holidays
+  };
+}
+
+export function loadCalendarConfig(configPath?: string): TeamCalendar {
+  const parsed = readJsonConfig('Calendar', DEFAULT_CALENDAR_CONFIG_PATH, 'JIRA_CALENDAR_CONFIG', configPath);
+  return parsed === undefined ? DEFAULT_TEAM_CALENDAR : validateCalendarConfig(parsed);
+}
+
+// Calendar day of an instant in the given time zone, as YYYY-MM-DD
+export function localDay(date: Date, timeZone: string): string {
+  // en-CA formats dates as YYYY-MM-DD
+  return new Intl.DateTimeFormat('en-CA', { timeZone, year: 'numeric', month: '2-digit', day: '2-digit' }).format(date);
+}
+
+function addDays(day: string, days: number): string {
+  const date = new Date(`${day}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().slice(0, 10);
+}
+
+export function isWorkingDay(day: string, calendar: TeamCalendar): boolean {
+  const weekday = new Date(`${day}T00:00:00Z`).getUTCDay() || 7;
+  return calendar.workingDays.includes(weekday) && !calendar.holidays.includes(day);
+}
+
+// Trim non-working days off both ends of the sprint. A sprint without any working day keeps its raw dates;
+// a future sprint has no dates yet, so no days at all.
+export function sprintDays(sprint: JiraSprint, calendar: TeamCalendar): SprintDays | null {
+  if (!sprint.startDate || !sprint.endDate) return null;
+
+  let first = localDay(new Date(sprint.startDate), calendar.timeZone);
+  let last = localDay(new Date(sprint.endDate), calendar.timeZone);
+  const rawFirst = first;
+  const rawLast = last;
+
+  while (first <= last && !isWorkingDay(first, calendar)) first = addDays(first, 1);
+  while (last >= first && !isWorkingDay(last, calendar)) last = addDays(last, -1);
+
+  return first <= last ? { first, last } : { first: rawFirst, last: rawLast };
+}
+
+// Work done on a weekend or holiday belongs to the working day before it
+function workingDayOf(day: string, calendar: TeamCalendar): string {
+  let candidate = day;
+  for (let step = 0; step < 7 + calendar.holidays.length; step++) {
+    if (isWorkingDay(candidate, calendar)) return candidate;
+    candidate = addDays(candidate, -1);
+  }
+  return day;
+}
+
+// Whether an instant falls on one of the sprint's working days in the team time zone
+export function isWithinSprintDays(date: Date, days: SprintDays, calendar: TeamCalendar): boolean {
+  const day = workingDayOf(localDay(date, calendar.timeZone), calendar);
+  return day >= days.first && day <= days.last;
+}
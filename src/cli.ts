@@ -0,0 +1,336 @@
+import chalk from 'chalk';
+import { DEFAULT_CONCURRENCY } from './concurrency';
+import { CacheMode } from './jira/cache';
+import { GROUP_BY, GroupBy } from './metrics/teams';
+import { DEFAULT_EXPORT_DIR, EXPORT_FORMATS, ExportFormat } from './render/export';
+import { DEFAULT_SITE_DIR } from './render/site';
+
+export type CommandName = 'report' | 'sprints list' | 'export' | 'trends' | 'validate';
+
+export interface CliOptions {
+  sprintIds: number[];
+  sprintName?: string;
+  last?: number;
+  window?: number;
+  since?: Date;
+  until?: Date;
+  boards: string[];
+  projects: string[];
+  console: boolean;
+  html: boolean;
+  cacheMode: CacheMode;
+  formats: ExportFormat[];
+  outDir: string;
+  // Also write the multi-page static site here
+  siteDir?: string;
+  concurrency: number;
+  groupBy: GroupBy;
+  redact: boolean;
+  help: boolean;
+}
+
+export interface CliArgs {
+  command: CommandName;
+  // False when falling back to the default command
+  explicitCommand: boolean;
+  options: CliOptions;
+}
+
+interface OptionDefinition {
+  name: string;
+  valueName?: string;
+  description: string;
+  // Applies the option to the parsed options; value is undefined for flags
+  apply: (options: CliOptions, value?: string) => void;
+}
+
+interface CommandDefinition {
+  name: CommandName;
+  description: string;
+  options: string[];
+  examples: string[];
+}
+
+function parsePositiveInteger(name: string, value: string): number {
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed <= 0) {
+    throw new Error(`--${name} expects a positive whole number, got "${value}"`);
+  }
+  return parsed;
+}
+
+function parseDate(name: string, value: string): Date {
+  const parsed = new Date(value);
+  if (!/^\d{4}-\d{2}-\d{2}/.test(value) || isNaN(parsed.getTime())) {
+    throw new Error(`--${name} expects a date like 2024-01-31, got "${value}"`);
+  }
+  return parsed;
+}
+
+function splitList(value: string): string[] {
+  return value.split(',').map(entry => entry.trim()).filter(Boolean);
+}
+
+const OPTIONS: OptionDefinition[] = [
+  {
+    name: 'sprint-id',
+    valueName: 'id[,id...]',
+    description: 'Only include the sprints with these Jira ids',
+    apply: (options, value) => {
+      value!.split(',').forEach(id => options.sprintIds.push(parsePositiveInteger('sprint-id', id.trim())));
+    }
+  },
+  {
+    name: 'sprint-name',
+    valueName: 'name|/regex/',
+    description: 'Only include sprints with exactly this name, or matching /regex/ (flags allowed, e.g. /sprint 2\\d/i)',
+    apply: (options, value) => { options.sprintName = value; }
+  },
+  {
+    name: 'last',
+    valueName: 'n',
+    description: 'Only include the n most recently started sprints',
+    apply: (options, value) => { options.last = parsePositiveInteger('last', value!); }
+  },
+  {
+    name: 'window',
+    valueName: 'n',
+    description: 'Number of sprints averaged in the rolling trend (default: 3)',
+    apply: (options, value) => { options.window = parsePositiveInteger('window', value!); }
+  },
+  {
+    name: 'since',
+    valueName: 'date',
+    description: 'Only include sprints that end on or after this date',
+    apply: (options, value) => { options.since = parseDate('since', value!); }
+  },
+  {
+    name: 'until',
+    valueName: 'date',
+    description: 'Only include sprints that start on or before this date',
+    apply: (options, value) => { options.until = parseDate('until', value!); }
+  },
+  {
+    name: 'board',
+    valueName: 'id|name[,...]',
+    description: 'Boards to report on, repeatable (default: config/projects.json, else every scrum board)',
+    apply: (options, value) => { options.boards.push(...splitList(value!)); }
+  },
+  {
+    name: 'project',
+    valueName: 'key[,key...]',
+    description: 'Jira project keys, repeatable (default: config/projects.json, else JIRA_PROJECT_KEY)',
+    apply: (options, value) => { options.projects.push(...splitList(value!)); }
+  },
+  {
+    name: 'no-console',
+    description: 'Do not print the console tables',
+    apply: options => { options.console = false; }
+  },
+  {
+    name: 'no-html',
+    description: 'Do not write the HTML report',
+    apply: options => { options.html = false; }
+  },
+  {
+    name: 'site',
+    valueName: 'dir',
+    description: `Also write a static site with a page per sprint and person to dir (e.g. ${DEFAULT_SITE_DIR}), keeping the sprints archived there`,
+    apply: (options, value) => { options.siteDir = value!; }
+  },
+  {
+    name: 'group-by',
+    valueName: 'person|team',
+    description: 'Key the console tables and leaderboards on people or on the teams in config/people.json (default: person)',
+    apply: (options, value) => {
+      if (!GROUP_BY.includes(value as GroupBy)) {
+        throw new Error(`Unknown grouping "${value}" (expected ${GROUP_BY.join(', ')})`);
+      }
+      options.groupBy = value as GroupBy;
+    }
+  },
+  {
+    name: 'redact',
+    description: 'Pseudonymise people, hash issue keys and round hours in the HTML report, site and exports (see config/redact.example.json; --site needs JIRA_REDACT_SALT)',
+    apply: options => { options.redact = true; }
+  },
+  {
+    name: 'format',
+    valueName: 'json|csv',
+    description: `Export formats, comma separated (${EXPORT_FORMATS.join(', ')})`,
+    apply: (options, value) => {
+      for (const format of value!.split(',')) {
+        if (!EXPORT_FORMATS.includes(format as ExportFormat)) {
+          throw new Error(`Unknown export format "${format}" (expected ${EXPORT_FORMATS.join(', ')})`);
+        }
+        options.formats.push(format as ExportFormat);
+      }
+    }
+  },
+  {
+    name: 'out',
+    valueName: 'dir',
+    description: `Directory for exported files (default: ${DEFAULT_EXPORT_DIR})`,
+    apply: (options, value) => { options.outDir = value!; }
+  },
+  {
+    name: 'concurrency',
+    valueName: 'n',
+    description: `Number of sprints fetched from Jira at the same time (default: ${DEFAULT_CONCURRENCY})`,
+    apply: (options, value) => { options.concurrency = parsePositiveInteger('concurrency', value!); }
+  },
+  {
+    name: 'refresh',
+    description: 'Ignore the local cache and refetch everything from Jira',
+    apply: options => { options.cacheMode = 'refresh'; }
+  },
+  {
+    name: 'offline',
+    description: 'Build everything from the local cache without calling Jira',
+    apply: options => { options.cacheMode = 'offline'; }
+  },
+  {
+    name: 'help',
+    description: 'Show help for a command',
+    apply: options => { options.help = true; }
+  }
+];
+
+const SELECTION_OPTIONS = ['sprint-id', 'sprint-name', 'last', 'since', 'until', 'board', 'project'];
+const CACHE_OPTIONS = ['refresh', 'offline'];
+const FETCH_OPTIONS = ['concurrency', ...CACHE_OPTIONS];
+
+const COMMANDS: CommandDefinition[] = [
+  {
+    name: 'report',
+    description: 'Print the console tables and write the HTML report (default command)',
+    options: [...SELECTION_OPTIONS, 'no-console', 'group-by', 'no-html', 'site', 'redact', 'format', 'out', ...FETCH_OPTIONS, 'help'],
+    examples: [
+      'report --last 3',
+      'report --sprint-name "Sprint 21"',
+      'report --since 2024-01-01 --no-console',
+      'report --project ABC,XYZ --last 2',
+      'report --last 10 --concurrency 2',
+      'report --last 3 --group-by team',
+      `report --last 1 --no-html --site ${DEFAULT_SITE_DIR}`,
+      `report --last 1 --redact --site ${DEFAULT_SITE_DIR}`
+    ]
+  },
+  {
+    name: 'sprints list',
+    description: 'List the sprints of the selected boards with their ids, states and dates',
+    options: [...SELECTION_OPTIONS, ...CACHE_OPTIONS, 'help'],
+    examples: ['sprints list', 'sprints list --sprint-name "/^Sprint 2\\d$/"']
+  },
+  {
+    name: 'export',
+    description: 'Write the sprint summaries as JSON and/or CSV files only (default format: json,csv)',
+    options: [...SELECTION_OPTIONS, 'format', 'out', 'redact', ...FETCH_OPTIONS, 'help'],
+    examples: ['export --format csv --out reports', 'export --sprint-id 812,813', 'export --redact --format json']
+  },
+  {
+    name: 'trends',
+    description: 'Print sprint over sprint trends from the stored report snapshots, without calling Jira (default: last 10)',
+    options: ['board', 'project', 'last', 'window', 'help'],
+    examples: ['trends', 'trends --last 6 --window 2', 'trends --project ABC']
+  },
+  {
+    name: 'validate',
+    description: 'Check the environment, the projects and the workflow config against Jira, then exit',
+    options: ['board', 'project', ...CACHE_OPTIONS, 'help'],
+    examples: ['validate', 'validate --offline']
+  }
+];
+
+function findCommand(args: string[]): { command: CommandDefinition; explicit: boolean; rest: string[] } {
+  if (!args.length || args[0].startsWith('--')) {
+    return { command: COMMANDS[0], explicit: false, rest: args };
+  }
+
+  if (args[0] === 'sprints') {
+    if (args[1] !== 'list') {
+      throw new Error(`Unknown command "sprints ${args[1] || ''}". Did you mean "sprints list" or "report --sprint-name <name>"?`);
+    }
+    return { command: COMMANDS.find(command => command.name === 'sprints list')!, explicit: true, rest: args.slice(2) };
+  }
+
+  const command = COMMANDS.find(candidate => candidate.name === args[0]);
+  if (!command) {
+    throw new Error(`Unknown command "${args[0]}" (expected ${COMMANDS.map(c => c.name).join(', ')})`);
+  }
+  return { command, explicit: true, rest: args.slice(1) };
+}
+
+// Parse process arguments against the command and option definitions
+export function parseCli(argv: string[] = process.argv.slice(2)): CliArgs {
+  const args = argv.map(arg => (arg === '-h' ? '--help' : arg));
+  const { command, explicit, rest } = findCommand(args);
+  const options: CliOptions = {
+    sprintIds: [],
+    boards: [],
+    projects: [],
+    console: true,
+    html: true,
+    cacheMode: 'default',
+    formats: [],
+    outDir: DEFAULT_EXPORT_DIR,
+    concurrency: DEFAULT_CONCURRENCY,
+    groupBy: 'person',
+    redact: false,
+    help: false
+  };
+
+  for (let i = 0; i < rest.length; i++) {
+    const arg = rest[i];
+    if (!arg.startsWith('--')) {
+      throw new Error(`Unexpected argument "${arg}" for ${command.name}`);
+    }
+
+    const [name, inlineValue] = arg.slice(2).split(/=(.*)/s, 2);
+    const option = OPTIONS.find(candidate => candidate.name === name);
+    if (!option || !command.options.includes(name)) {
+      throw new Error(`Unknown option --${name} for ${command.name} (see --help)`);
+    }
+
+    let value: string | undefined;
+    if (option.valueName) {
+      value = inlineValue !== undefined ? inlineValue : rest[++i];
+      if (value === undefined) {
+        throw new Error(`--${name} expects a value (${option.valueName})`);
+      }
+    }
+    option.apply(options, value);
+  }
+
+  if (rest.includes('--refresh') && rest.includes('--offline')) {
+    throw new Error('--refresh and --offline cannot be used together');
+  }
+  if (options.since && options.until && options.since > options.until) {
+    throw new Error('--since must be before --until');
+  }
+  if (command.name === 'export' && !options.formats.length) {
+    options.formats = [...EXPORT_FORMATS];
+  }
+
+  return { command: command.name, explicitCommand: explicit, options };
+}
+
+// Build the usage text from the same definitions the parser uses
+export function formatHelp(commandName?: CommandName): string {
+  const commands = commandName ? COMMANDS.filter(command => command.name === commandName) : COMMANDS;
+  const lines: string[] = [chalk.bold('Usage:'), '  npm start -- [command] [options]', ''];
+
+  for (const command of commands) {
+    lines.push(`${chalk.bold(command.name)}  ${command.description}`);
+    for (const name of command.options) {
+      const option = OPTIONS.find(candidate => candidate.name === name)!;
+      const flag = option.valueName ? `--${option.name} <${option.valueName}>` : `--${option.name}`;
+      lines.push(`  ${flag.padEnd(32)} ${option.description}`);
+    }
+    lines.push(chalk.gray('  Examples:'));
+    command.examples.forEach(example => lines.push(chalk.gray(`    npm start -- ${example}`)));
+    lines.push('');
+  }
+
+  return lines.join('\n');
+}
@@ -0,0 +1,28 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+// Read a JSON config file. The path comes from the argument, then the environment variable, then the default.
+// A missing default file returns undefined so callers can fall back to built-in defaults;
+// a missing file that was asked for explicitly is an error.
+export function readJsonConfig(
+  label: string,
+  defaultPath: string,
+  envVar: string,
+  configPath?: string
+): unknown | undefined {
+  const explicitPath = configPath || process.env[envVar];
+  const resolvedPath = path.resolve(explicitPath || defaultPath);
+
+  if (!fs.existsSync(resolvedPath)) {
+    if (explicitPath) {
+      throw new Error(`${label} config not found: ${resolvedPath}`);
+    }
+    return undefined;
+  }
+
+  try {
+    return JSON.parse(fs.readFileSync(resolvedPath, 'utf8'));
+  } catch (error) {
+    throw new Error(`Could not parse ${label.toLowerCase()} config ${resolvedPath}: ${error instanceof Error ? error.message : error}`);
+  }
+}
@@ -0,0 +1,249 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import JiraClient from 'jira-client';
+import { CoreOptions } from 'request';
+import { JiraHttpError, JiraRequest, JiraRequestOptions } from './request';
+
+// basic: Cloud email + API token, or a Server/Data Center username + password
+// pat: Server/Data Center personal access token, sent as a Bearer token
+// oauth2: Atlassian Cloud OAuth 2.0 (3LO) access token, refreshed from a refresh token when given
+export type JiraAuthMethod = 'basic' | 'pat' | 'oauth2';
+
+export const JIRA_AUTH_METHODS: JiraAuthMethod[] = ['basic', 'pat', 'oauth2'];
+
+const ATLASSIAN_TOKEN_URL = 'https://auth.atlassian.com/oauth/token';
+const ATLASSIAN_RESOURCES_URL = 'https://api.atlassian.com/oauth/token/accessible-resources';
+const ATLASSIAN_API_HOST = 'api.atlassian.com';
+
+export const DEFAULT_OAUTH_TOKEN_FILE = path.join('.cache', 'oauth-token.json');
+
+// A stored access token is refreshed this long before it expires rather than reused
+const OAUTH_EXPIRY_MARGIN_MS = 5 * 60000;
+
+export interface JiraUrl {
+  protocol: 'http' | 'https';
+  host: string;
+  port?: string;
+  // Context path Jira is served under, e.g. /jira; empty at the root
+  base: string;
+}
+
+// Connection and auth options handed to jira-client
+export type JiraConnectionOptions = Pick<
+  JiraClient.JiraApiOptions,
+  'protocol' | 'host' | 'port' | 'base' | 'ca' | 'username' | 'password' | 'bearer'
+>;
+
+// The connection, plus how to get a new bearer token once Jira stops accepting the current one
+export type JiraConnection = JiraConnectionOptions & { refreshBearer?: () => Promise<string> };
+
+interface OAuthTokens {
+  accessToken: string;
+  refreshToken?: string;
+  // ISO time the access token expires at
+  expiresAt?: string;
+}
+
+type AtlassianRequestOptions = JiraRequestOptions & Pick<CoreOptions, 'json' | 'headers' | 'ca'>;
+
+// Calls to Atlassian's OAuth endpoints, sent like Jira calls so they honour the proxy settings and JIRA_CA_FILE
+type AtlassianCall = <T>(options: AtlassianRequestOptions) => Promise<T>;
+
+// Split JIRA_HOST into protocol, host, port and context path; https is assumed without a scheme
+export function parseJiraUrl(value: string): JiraUrl {
+  const trimmed = value.trim();
+  if (!trimmed) {
+    throw new Error('JIRA_HOST is not set');
+  }
+
+  let url: URL;
+  try {
+    url = new URL(/^[a-z][a-z0-9+.-]*:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`);
+  } catch {
+    throw new Error(`JIRA_HOST "${value}" is not a valid URL`);
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new Error(`JIRA_HOST "${value}" must use http or https, got ${url.protocol.replace(':', '')}`);
+  }
+
+  return {
+    protocol: url.protocol === 'http:' ? 'http' : 'https',
+    host: url.hostname,
+    port: url.port || undefined,
+    base: url.pathname.replace(/\/+$/, '')
+  };
+}
+
+// Web address of the Jira site, e.g. https://jira.example.com:8443/jira
+export function jiraSiteUrl(url: JiraUrl): string {
+  return `${url.protocol}://${url.host}${url.port ? `:${url.port}` : ''}${url.base}`;
+}
+
+// JIRA_AUTH_METHOD when set, otherwise guessed from the credentials present
+export function jiraAuthMethod(): JiraAuthMethod {
+  const value = process.env.JIRA_AUTH_METHOD?.trim().toLowerCase();
+  if (value) {
+    if (!JIRA_AUTH_METHODS.includes(value as JiraAuthMethod)) {
+      throw new Error(`JIRA_AUTH_METHOD must be one of ${JIRA_AUTH_METHODS.join(', ')}, got "${value}"`);
+    }
+    return value as JiraAuthMethod;
+  }
+  if (process.env.JIRA_PAT) return 'pat';
+  if (process.env.JIRA_OAUTH_ACCESS_TOKEN || process.env.JIRA_OAUTH_REFRESH_TOKEN) return 'oauth2';
+  return 'basic';
+}
+
+// Environment variables the auth method still needs
+export function missingAuthEnv(method: JiraAuthMethod): string[] {
+  const missing = (names: string[]) => names.filter(name => !process.env[name]);
+
+  switch (method) {
+    case 'pat':
+      return missing(['JIRA_HOST', 'JIRA_PAT']);
+    case 'oauth2': {
+      // An access token alone works until it expires; anything else is refreshed, which needs the app credentials
+      if (process.env.JIRA_OAUTH_ACCESS_TOKEN) return missing(['JIRA_HOST']);
+      const refresh = ['JIRA_HOST', 'JIRA_OAUTH_CLIENT_ID', 'JIRA_OAUTH_CLIENT_SECRET'];
+      return missing(readStoredTokens().refreshToken ? refresh : [...refresh, 'JIRA_OAUTH_REFRESH_TOKEN']);
+    }
+    default:
+      return missing(['JIRA_HOST', 'JIRA_EMAIL', 'JIRA_API_TOKEN']);
+  }
+}
+
+function oauthTokenFile(): string {
+  return path.resolve(process.env.JIRA_OAUTH_TOKEN_FILE || DEFAULT_OAUTH_TOKEN_FILE);
+}
+
+// Certificate bundle for servers signed by an internal CA
+function readCaBundle(): string | undefined {
+  const file = process.env.JIRA_CA_FILE;
+  if (!file) return undefined;
+  try {
+    return fs.readFileSync(path.resolve(file), 'utf8');
+  } catch (error) {
+    throw new Error(`Could not read JIRA_CA_FILE ${file}: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+function readStoredTokens(): Partial<OAuthTokens> {
+  const file = oauthTokenFile();
+  if (!fs.existsSync(file)) return {};
+  try {
+    return JSON.parse(fs.readFileSync(file, 'utf8'));
+  } catch (error) {
+    throw new Error(`Could not read the OAuth token file ${file}: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+function atlassianCall(request: JiraRequest, ca: string | undefined): AtlassianCall {
+  return async <T>(options: AtlassianRequestOptions) => {
+    const sent: AtlassianRequestOptions = { ...options, json: true, ca };
+    try {
+      return await request(sent) as T;
+    } catch (error) {
+      if (error instanceof JiraHttpError) throw new Error(`${options.uri} answered ${error.statusCode}`);
+      throw error;
+    }
+  };
+}
+
+function canRefreshOAuth(): boolean {
+  return !!process.env.JIRA_OAUTH_CLIENT_ID && !!process.env.JIRA_OAUTH_CLIENT_SECRET &&
+    !!(readStoredTokens().refreshToken || process.env.JIRA_OAUTH_REFRESH_TOKEN);
+}
+
+// Whether a stored access token is still good for a while
+function isFresh(tokens: Partial<OAuthTokens>): tokens is OAuthTokens {
+  return !!tokens.accessToken && !!tokens.expiresAt && Date.parse(tokens.expiresAt) - OAUTH_EXPIRY_MARGIN_MS > Date.now();
+}
+
+// Atlassian rotates refresh tokens, so the latest one is kept next to the cache, with the access token
+// it came with, and preferred over JIRA_OAUTH_REFRESH_TOKEN on the next run
+async function refreshOAuthTokens(call: AtlassianCall): Promise<OAuthTokens> {
+  const file = oauthTokenFile();
+  const refreshToken = readStoredTokens().refreshToken || process.env.JIRA_OAUTH_REFRESH_TOKEN;
+  if (!refreshToken || !process.env.JIRA_OAUTH_CLIENT_ID || !process.env.JIRA_OAUTH_CLIENT_SECRET) {
+    throw new Error('OAuth refresh needs JIRA_OAUTH_CLIENT_ID, JIRA_OAUTH_CLIENT_SECRET and JIRA_OAUTH_REFRESH_TOKEN');
+  }
+
+  const response = await call<{ access_token: string; refresh_token?: string; expires_in?: number }>({
+    uri: ATLASSIAN_TOKEN_URL,
+    method: 'POST',
+    body: {
+      grant_type: 'refresh_token',
+      client_id: process.env.JIRA_OAUTH_CLIENT_ID,
+      client_secret: process.env.JIRA_OAUTH_CLIENT_SECRET,
+      refresh_token: refreshToken
+    }
+  });
+  const tokens: OAuthTokens = {
+    accessToken: response.access_token,
+    refreshToken: response.refresh_token || refreshToken,
+    expiresAt: response.expires_in ? new Date(Date.now() + response.expires_in * 1000).toISOString() : undefined
+  };
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, JSON.stringify(tokens), { mode: 0o600 });
+  return tokens;
+}
+
+// Requests turned away at the same time share one refresh, since each refresh rotates the refresh token
+function oauthRefresher(call: AtlassianCall): () => Promise<string> {
+  let refreshing: Promise<string> | undefined;
+  return () => {
+    refreshing = refreshing || refreshOAuthTokens(call)
+      .then(tokens => tokens.accessToken)
+      .finally(() => { refreshing = undefined; });
+    return refreshing;
+  };
+}
+
+// OAuth apps call Jira through api.atlassian.com, addressed by the site's cloud id
+async function findCloudId(site: JiraUrl, accessToken: string, call: AtlassianCall): Promise<string> {
+  if (process.env.JIRA_OAUTH_CLOUD_ID) return process.env.JIRA_OAUTH_CLOUD_ID;
+
+  const resources = await call<Array<{ id: string; url: string }>>({
+    uri: ATLASSIAN_RESOURCES_URL,
+    headers: { Authorization: `Bearer ${accessToken}`, Accept: 'application/json' }
+  });
+  const match = resources.find(resource => new URL(resource.url).hostname === site.host);
+  if (!match) {
+    throw new Error(`The OAuth token has no access to ${site.host}; it can reach ${resources.map(resource => resource.url).join(', ') || 'no sites'}`);
+  }
+  return match.id;
+}
+
+// Resolve where and how to connect to Jira from the environment; OAuth calls are sent with the given request function
+export async function resolveJiraConnection(request: JiraRequest): Promise<JiraConnection> {
+  const method = jiraAuthMethod();
+  const missing = missingAuthEnv(method);
+  if (missing.length) {
+    throw new Error(`Missing environment variables for ${method} auth: ${missing.join(', ')}`);
+  }
+
+  const site = parseJiraUrl(process.env.JIRA_HOST || '');
+  const ca = readCaBundle();
+
+  switch (method) {
+    case 'pat':
+      return { ...site, ca, bearer: process.env.JIRA_PAT };
+    case 'oauth2': {
+      const call = atlassianCall(request, ca);
+      const refreshBearer = canRefreshOAuth() ? oauthRefresher(call) : undefined;
+      const stored = readStoredTokens();
+      const accessToken = process.env.JIRA_OAUTH_ACCESS_TOKEN ||
+        (isFresh(stored) ? stored.accessToken : (await refreshOAuthTokens(call)).accessToken);
+      const cloudId = await findCloudId(site, accessToken, call);
+      return {
+        protocol: 'https',
+        host: ATLASSIAN_API_HOST,
+        base: `/ex/jira/${cloudId}`,
+        ca,
+        bearer: accessToken,
+        refreshBearer
+      };
+    }
+    default:
+      return { ...site, ca, username: process.env.JIRA_EMAIL, password: process.env.JIRA_API_TOKEN };
+  }
+}
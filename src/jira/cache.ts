@@ -0,0 +1,84 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { JiraIssue, JiraSprint, JiraUser } from './types';
+
+// default: reuse closed sprints, refetch what changed in open ones
+// refresh: ignore the cache and refetch everything
+// offline: never call Jira, build everything from the cache
+export type CacheMode = 'default' | 'refresh' | 'offline';
+
+export const DEFAULT_CACHE_DIR = path.join('.cache', 'jira');
+
+export interface CachedSprint {
+  sprint: JiraSprint;
+  fetchedAt: string;
+  issueKeys: string[];
+  uatTotal: number;
+  // Issues that left the sprint while it ran; missing in caches written before scope tracking
+  removedIssueKeys?: string[];
+  // The assignee's account; only a display name in caches written before people were keyed by id
+  noEstimateIssues: Array<{key: string; assignee: JiraUser | string | null}>;
+}
+
+export class JiraCache {
+  readonly mode: CacheMode;
+  readonly dir: string;
+
+  constructor(mode: CacheMode = 'default', dir?: string) {
+    this.mode = mode;
+    this.dir = path.resolve(dir || process.env.JIRA_CACHE_DIR || DEFAULT_CACHE_DIR);
+  }
+
+  get offline(): boolean {
+    return this.mode === 'offline';
+  }
+
+  private filePath(...parts: string[]): string {
+    return path.join(this.dir, ...parts.map(part => part.replace(/[^\w.-]/g, '_'))) + '.json';
+  }
+
+  private read<T>(file: string): T | undefined {
+    if (!fs.existsSync(file)) return undefined;
+    return JSON.parse(fs.readFileSync(file, 'utf8')) as T;
+  }
+
+  private write(file: string, data: unknown): void {
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, JSON.stringify(data));
+  }
+
+  // Fetch a raw response and store it, or read the stored copy when offline
+  async fetchJson<T>(name: string, fetch: () => Promise<T>): Promise<T> {
+    const file = this.filePath(name);
+
+    if (this.offline) {
+      const cached = this.read<T>(file);
+      if (cached === undefined) {
+        throw new Error(`Offline mode: no cached response for "${name}" in ${this.dir}`);
+      }
+      return cached;
+    }
+
+    const data = await fetch();
+    this.write(file, data);
+    return data;
+  }
+
+  readSprint(sprintId: number): CachedSprint | undefined {
+    if (this.mode === 'refresh') return undefined;
+    return this.read<CachedSprint>(this.filePath('sprints', String(sprintId)));
+  }
+
+  writeSprint(entry: CachedSprint): void {
+    this.write(this.filePath('sprints', String(entry.sprint.id)), entry);
+  }
+
+  readIssue(key: string): JiraIssue | undefined {
+    if (this.mode === 'refresh') return undefined;
+    return this.read<JiraIssue>(this.filePath('issues', key));
+  }
+
+  writeIssue(issue: JiraIssue): void {
+    this.write(this.filePath('issues', issue.key), issue);
+  }
+}
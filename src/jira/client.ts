@@ -0,0 +1,26 @@
+import JiraClient from 'jira-client';
+import { resolveJiraConnection } from './auth';
+import { FixtureRecorder } from './fixtures';
+import { DEFAULT_MAX_RETRIES, createJiraRequest } from './request';
+
+// Build the Jira client from the environment (call after dotenv has loaded .env)
+export async function createJiraClient(): Promise<JiraClient> {
+  const maxRetries = process.env.JIRA_MAX_RETRIES !== undefined ? Number(process.env.JIRA_MAX_RETRIES) : DEFAULT_MAX_RETRIES;
+  if (!Number.isInteger(maxRetries) || maxRetries < 0) {
+    throw new Error(`JIRA_MAX_RETRIES must be a whole number, got "${process.env.JIRA_MAX_RETRIES}"`);
+  }
+
+  // JIRA_RECORD_FIXTURES=<dir> keeps every response as an anonymised fixture for the mock server
+  const recorder = process.env.JIRA_RECORD_FIXTURES ? new FixtureRecorder(process.env.JIRA_RECORD_FIXTURES) : undefined;
+
+  // Token refreshes go through the same transport, but are never recorded
+  const { refreshBearer, ...connection } = await resolveJiraConnection(createJiraRequest(maxRetries));
+
+  return new JiraClient({
+    ...connection,
+    apiVersion: process.env.JIRA_API_VERSION || '2',
+    strictSSL: process.env.JIRA_STRICT_SSL !== 'false',
+    timeout: Number(process.env.JIRA_REQUEST_TIMEOUT) || 30000,
+    request: createJiraRequest(maxRetries, recorder, refreshBearer)
+  });
+}
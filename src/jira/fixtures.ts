@@ -0,0 +1,203 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+
+export const DEFAULT_FIXTURE_DIR = path.join('fixtures', 'jira');
+
+// Absolute links in recorded responses point here instead of the real site
+export const FIXTURE_ORIGIN = 'http://jira.example.test';
+
+// Free text that may hold anything, dropped from recorded issues, worklogs and sprints
+const TEXT_FIELDS = ['description', 'environment', 'comment', 'goal'];
+
+// Changelog fields the metrics read, besides story points; every other field's old and new values are blanked
+const CHANGELOG_FIELDS = ['status', 'sprint', 'assignee'];
+
+// Story point changes carry the field id on Cloud; Server/DC changelogs only name the field
+const STORY_POINTS_NAME = /^story points?$/i;
+
+export interface FixtureRequest {
+  method: string;
+  // Path from /rest/ on, so fixtures replay whatever context path or cloud id the site was recorded under
+  path: string;
+  query: { [key: string]: string };
+  body: unknown;
+}
+
+export interface Fixture {
+  request: FixtureRequest;
+  status: number;
+  response: unknown;
+}
+
+// JSON with sorted object keys, so equal bodies give equal keys whatever order they were built in
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const object = value as Record<string, unknown>;
+    return `{${Object.keys(object).sort()
+      .filter(key => object[key] !== undefined)
+      .map(key => `${JSON.stringify(key)}:${canonicalJson(object[key])}`)
+      .join(',')}}`;
+  }
+  return JSON.stringify(value === undefined ? null : value);
+}
+
+export function toFixtureRequest(method: string, url: URL, body: unknown): FixtureRequest {
+  const restIndex = url.pathname.indexOf('/rest/');
+  const query: { [key: string]: string } = {};
+  Array.from(url.searchParams.keys()).sort().forEach(key => { query[key] = url.searchParams.getAll(key).join(','); });
+  return {
+    method: method.toUpperCase(),
+    path: restIndex >= 0 ? url.pathname.slice(restIndex) : url.pathname,
+    query,
+    body: body === undefined || body === '' ? null : body
+  };
+}
+
+export function fixtureKey(request: FixtureRequest): string {
+  return `${request.method} ${request.path} ${canonicalJson(request.query)} ${canonicalJson(request.body)}`;
+}
+
+function fixtureFileName(request: FixtureRequest): string {
+  const hash = crypto.createHash('sha1').update(fixtureKey(request)).digest('hex').slice(0, 12);
+  const slug = request.path.replace(/^\/rest\//, '').replace(/[^\w]+/g, '-').replace(/^-|-$/g, '');
+  return `${request.method.toLowerCase()}-${slug}-${hash}.json`;
+}
+
+// Replaces people and free text with stable pseudonyms. The same salt gives the same
+// pseudonyms, so fixtures recorded in separate runs still agree on who is who.
+export class Anonymizer {
+  private readonly salt: string;
+  private readonly storyPointsField?: string;
+
+  constructor(
+    salt: string = process.env.JIRA_FIXTURE_SALT || crypto.randomBytes(16).toString('hex'),
+    storyPointsField: string | undefined = process.env.JIRA_STORY_POINTS_FIELD
+  ) {
+    this.salt = salt;
+    this.storyPointsField = storyPointsField;
+  }
+
+  private hash(value: string): string {
+    return crypto.createHmac('sha256', this.salt).update(value).digest('hex').slice(0, 8);
+  }
+
+  person(displayName: string): string {
+    return `Person ${this.hash(displayName)}`;
+  }
+
+  userId(id: string): string {
+    return `user-${this.hash(id)}`;
+  }
+
+  private isUser(value: Record<string, unknown>): boolean {
+    return typeof value.displayName === 'string' &&
+      ('accountId' in value || 'emailAddress' in value || 'active' in value);
+  }
+
+  private anonymizeUser(user: Record<string, unknown>): Record<string, unknown> {
+    const { avatarUrls, ...rest } = user;
+    const result: Record<string, unknown> = { ...rest, displayName: this.person(String(user.displayName)) };
+    ['accountId', 'name', 'key'].forEach(field => {
+      const handle = user[field];
+      if (typeof handle === 'string') result[field] = this.userId(handle);
+    });
+    if (typeof user.emailAddress === 'string') result.emailAddress = `${this.hash(user.emailAddress)}@example.test`;
+    if (typeof user.self === 'string') result.self = `${FIXTURE_ORIGIN}/rest/api/user`;
+    return result;
+  }
+
+  private keepsChangelogValues(item: Record<string, unknown>): boolean {
+    const field = String(item.field);
+    if (CHANGELOG_FIELDS.includes(field.toLowerCase())) return true;
+    return typeof item.fieldId === 'string' ? item.fieldId === this.storyPointsField : STORY_POINTS_NAME.test(field);
+  }
+
+  anonymize(value: unknown, parentKey?: string): unknown {
+    if (Array.isArray(value)) return value.map(entry => this.anonymize(entry, parentKey));
+    if (!value || typeof value !== 'object') {
+      if (parentKey === 'self' && typeof value === 'string') {
+        return value.replace(/^https?:\/\/[^/]+/, FIXTURE_ORIGIN);
+      }
+      return value;
+    }
+
+    const object = value as Record<string, unknown>;
+    if (this.isUser(object)) return this.anonymizeUser(object);
+
+    const result: Record<string, unknown> = {};
+    for (const [key, entry] of Object.entries(object)) {
+      if (TEXT_FIELDS.includes(key) || key === 'avatarUrls') continue;
+      result[key] = this.anonymize(entry, key);
+    }
+
+    // Issue fields: keep the key readable, drop the summary text
+    const fields = object.fields;
+    if (typeof object.key === 'string' && fields && typeof fields === 'object' &&
+      typeof (fields as Record<string, unknown>).summary === 'string') {
+      result.fields = { ...(result.fields as Record<string, unknown>), summary: `Summary of ${object.key}` };
+    }
+    if (typeof object.field !== 'string' || !('fromString' in object)) return result;
+
+    // Changelog items of fields the metrics do not read: text, links, labels, custom fields
+    if (!this.keepsChangelogValues(object)) {
+      ['from', 'fromString', 'to', 'toString'].forEach(field => {
+        if (typeof object[field] === 'string') result[field] = '';
+      });
+    }
+    // Changelog items that moved an issue between people
+    if (object.field.toLowerCase() === 'assignee') {
+      ['from', 'to'].forEach(field => {
+        const id = object[field];
+        if (typeof id === 'string') result[field] = this.userId(id);
+      });
+      ['fromString', 'toString'].forEach(field => {
+        const name = object[field];
+        if (typeof name === 'string') result[field] = this.person(name);
+      });
+    }
+    return result;
+  }
+}
+
+// Writes every Jira response as an anonymised fixture, one file per distinct request
+export class FixtureRecorder {
+  readonly dir: string;
+  private readonly anonymizer: Anonymizer;
+
+  constructor(dir: string, anonymizer: Anonymizer = new Anonymizer()) {
+    this.dir = path.resolve(dir);
+    this.anonymizer = anonymizer;
+  }
+
+  record(method: string, url: URL, body: unknown, status: number, response: unknown): string {
+    const request = toFixtureRequest(method, url, body);
+    const fixture: Fixture = { request, status, response: this.anonymizer.anonymize(response) };
+    const file = path.join(this.dir, fixtureFileName(request));
+    fs.mkdirSync(this.dir, { recursive: true });
+    fs.writeFileSync(file, JSON.stringify(fixture, null, 2));
+    return file;
+  }
+}
+
+// Every fixture in the directory, keyed by the request it answers
+export function loadFixtures(dir: string): Map<string, Fixture> {
+  const fixtures = new Map<string, Fixture>();
+  const resolved = path.resolve(dir);
+  if (!fs.existsSync(resolved)) {
+    throw new Error(`Fixture directory ${resolved} does not exist`);
+  }
+
+  for (const file of fs.readdirSync(resolved).filter(name => name.endsWith('.json'))) {
+    const filePath = path.join(resolved, file);
+    let fixture: Fixture;
+    try {
+      fixture = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+    } catch (error) {
+      throw new Error(`Could not parse fixture ${filePath}: ${error instanceof Error ? error.message : error}`);
+    }
+    fixtures.set(fixtureKey(fixture.request), fixture);
+  }
+  return fixtures;
+}
@@ -0,0 +1,53 @@
+import chalk from 'chalk';
+import * as http from 'http';
+import { DEFAULT_FIXTURE_DIR, Fixture, fixtureKey, loadFixtures, toFixtureRequest } from './fixtures';
+
+export const DEFAULT_MOCK_PORT = 4010;
+
+function readBody(req: http.IncomingMessage): Promise<unknown> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    req.on('data', chunk => chunks.push(chunk));
+    req.on('error', reject);
+    req.on('end', () => {
+      const text = Buffer.concat(chunks).toString('utf8');
+      try {
+        resolve(text ? JSON.parse(text) : undefined);
+      } catch {
+        resolve(text);
+      }
+    });
+  });
+}
+
+// Stand-in Jira that answers each request with the fixture recorded for it, whatever
+// the credentials, and 404 with a Jira-style error for anything that was never recorded
+export function createMockJiraServer(fixtures: Map<string, Fixture>): http.Server {
+  return http.createServer(async (req, res) => {
+    const url = new URL(req.url || '/', 'http://localhost');
+    const request = toFixtureRequest(req.method || 'GET', url, await readBody(req));
+    const fixture = fixtures.get(fixtureKey(request));
+
+    if (!fixture) {
+      console.error(chalk.red(`No fixture for ${request.method} ${request.path}${url.search}`));
+      res.writeHead(404, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ errorMessages: [`No fixture for ${request.method} ${request.path}`] }));
+      return;
+    }
+
+    res.writeHead(fixture.status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(fixture.response));
+  });
+}
+
+// npm run mock-jira -- [fixture dir] [port]
+if (require.main === module) {
+  const dir = process.argv[2] || process.env.JIRA_FIXTURE_DIR || DEFAULT_FIXTURE_DIR;
+  const port = Number(process.argv[3] || process.env.JIRA_MOCK_PORT) || DEFAULT_MOCK_PORT;
+  const fixtures = loadFixtures(dir);
+
+  createMockJiraServer(fixtures).listen(port, () => {
+    console.log(chalk.green(`Mock Jira serving ${fixtures.size} fixture(s) from ${dir} on http://localhost:${port}`));
+    console.log(chalk.gray(`Run against it with JIRA_HOST=http://localhost:${port} JIRA_AUTH_METHOD=pat JIRA_PAT=mock and --refresh`));
+  });
+}
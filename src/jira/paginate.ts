@@ -0,0 +1,119 @@
+import JiraClient from 'jira-client';
+import { jiraStatusCode } from './request';
+import { JiraBoard, JiraChangelog, JiraIssue, JiraSprint, JiraWorklog } from './types';
+
+// Jira Cloud caps search pages at 100 issues, whatever maxResults asks for
+const PAGE_SIZE = Number(process.env.JIRA_PAGE_SIZE) || 100;
+
+// One page of a paged endpoint; the items sit under a key that differs per endpoint
+type Page<K extends string, T> = {
+  startAt?: number;
+  maxResults?: number;
+  total?: number;
+  isLast?: boolean;
+} & { [P in K]?: T[] };
+
+// Walk a startAt/maxResults paged endpoint until every item has been read
+async function collectPages<T, K extends string>(
+  fetchPage: (startAt: number, maxResults: number) => Promise<Page<K, T>>,
+  itemsKey: K
+): Promise<T[]> {
+  const items: T[] = [];
+  let startAt = 0;
+
+  while (true) {
+    const page = await fetchPage(startAt, PAGE_SIZE);
+    const pageItems: T[] = page[itemsKey] || [];
+    items.push(...pageItems);
+    startAt += pageItems.length;
+
+    if (!pageItems.length || page.isLast === true) break;
+    if (typeof page.total === 'number' && startAt >= page.total) break;
+    if (typeof page.total !== 'number' && page.isLast === undefined) break;
+  }
+
+  return items;
+}
+
+// Run a JQL search and return the issues from every page
+export async function searchAllIssues(
+  jira: JiraClient,
+  jql: string,
+  options: { fields?: string[]; expand?: string[] } = {}
+): Promise<JiraIssue[]> {
+  return collectPages<JiraIssue, 'issues'>(
+    (startAt, maxResults) => jira.searchJira(jql, { ...options, startAt, maxResults }),
+    'issues'
+  );
+}
+
+// Count the issues matching a JQL query without downloading them
+export async function countIssues(jira: JiraClient, jql: string): Promise<number> {
+  const result = await jira.searchJira(jql, { maxResults: 0, fields: ['key'] });
+  return result.total;
+}
+
+export async function getAllBoards(jira: JiraClient, projectKey?: string): Promise<JiraBoard[]> {
+  return collectPages<JiraBoard, 'values'>(
+    (startAt, maxResults) => jira.getAllBoards(startAt, maxResults, undefined, undefined, projectKey),
+    'values'
+  );
+}
+
+export async function getAllSprints(jira: JiraClient, boardId: number): Promise<JiraSprint[]> {
+  return collectPages<JiraSprint, 'values'>(
+    (startAt, maxResults) => jira.getAllSprints(String(boardId), startAt, maxResults),
+    'values'
+  );
+}
+
+// Search results embed at most 20 worklogs per issue; fetch the rest from the worklog endpoint
+async function completeWorklogs(jira: JiraClient, issue: JiraIssue): Promise<void> {
+  const worklog = issue.fields.worklog;
+  if (!worklog || typeof worklog.total !== 'number' || worklog.worklogs.length >= worklog.total) return;
+
+  const worklogs = await collectPages<JiraWorklog, 'worklogs'>(
+    (startAt, maxResults) => jira.getIssueWorklogs(issue.id || issue.key, startAt, maxResults),
+    'worklogs'
+  );
+  issue.fields.worklog = { startAt: 0, maxResults: worklogs.length, total: worklogs.length, worklogs };
+}
+
+// Clients of sites without the changelog endpoint, which only Cloud has; Server/Data Center answer it with 404
+const withoutChangelogEndpoint = new WeakSet<JiraClient>();
+
+// Every changelog history of the issue, from the paged endpoint on Cloud. Server/Data Center instead
+// return the whole changelog with the issue itself.
+async function fetchChangelog(jira: JiraClient, key: string): Promise<JiraChangelog[]> {
+  if (!withoutChangelogEndpoint.has(jira)) {
+    try {
+      return await collectPages<JiraChangelog, 'values'>(
+        (startAt, maxResults) => jira.getIssueChangelog(key, startAt, maxResults),
+        'values'
+      );
+    } catch (error) {
+      if (jiraStatusCode(error) !== 404) throw error;
+      withoutChangelogEndpoint.add(jira);
+    }
+  }
+  const issue = await jira.findIssue(key, 'changelog', 'key') as JiraIssue;
+  return issue.changelog?.histories || [];
+}
+
+// Search results embed at most 100 changelog histories per issue; fetch the rest
+async function completeChangelog(jira: JiraClient, issue: JiraIssue): Promise<void> {
+  const changelog = issue.changelog;
+  if (!changelog || typeof changelog.total !== 'number' || changelog.histories.length >= changelog.total) return;
+
+  const histories = await fetchChangelog(jira, issue.key);
+  issue.changelog = { startAt: 0, maxResults: histories.length, total: histories.length, histories };
+}
+
+// Replace truncated embedded worklogs and changelogs with the complete lists
+export async function completeIssueDetails(jira: JiraClient, issues: JiraIssue[]): Promise<JiraIssue[]> {
+  for (const issue of issues) {
+    await completeWorklogs(jira, issue);
+    await completeChangelog(jira, issue);
+  }
+  return issues;
+}
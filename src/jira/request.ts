@@ -0,0 +1,149 @@
+import chalk from 'chalk';
+import { FixtureRecorder } from './fixtures';
+
+// The request fork jira-client itself sends calls through, typed by request's own typings. It honours
+// HTTP(S)_PROXY and NO_PROXY, and drops the Authorization header when a redirect leaves the Jira host.
+const request: typeof import('request') = require('postman-request');
+
+// Responses worth retrying: rate limiting and gateways that gave up on a busy Jira
+const RETRY_STATUS_CODES = [429, 502, 503, 504];
+const RETRY_ERROR_CODES = ['ECONNRESET', 'ECONNREFUSED', 'ETIMEDOUT', 'EPIPE', 'EAI_AGAIN', 'ESOCKETTIMEDOUT'];
+
+const BASE_DELAY_MS = 1000;
+const MAX_DELAY_MS = 60000;
+
+export const DEFAULT_MAX_RETRIES = 4;
+
+// The subset of the request options jira-client builds that this module looks at; the rest are passed on as they are
+export interface JiraRequestOptions {
+  uri: string;
+  method?: string;
+  body?: unknown;
+  qs?: { [key: string]: string | number | boolean | undefined };
+  auth?: { user?: string; pass?: string; sendImmediately?: boolean; bearer?: string };
+}
+
+export type JiraRequest = (options: JiraRequestOptions) => Promise<unknown>;
+
+// Fields are enumerable so jira-client keeps them when it serialises the rejection into its error message
+export class JiraHttpError extends Error {
+  statusCode: number;
+  body: unknown;
+  retryAfter?: string;
+
+  constructor(statusCode: number, body: unknown, retryAfter?: string) {
+    super(`Jira answered ${statusCode}`);
+    this.statusCode = statusCode;
+    this.body = body;
+    this.retryAfter = retryAfter;
+  }
+}
+
+// jira-client rejects with a plain Error holding the serialised rejection, so the status is read back from the message
+export function jiraStatusCode(error: unknown): number | undefined {
+  if (error instanceof JiraHttpError) return error.statusCode;
+  if (!(error instanceof Error)) return undefined;
+  try {
+    const statusCode = JSON.parse(error.message).statusCode;
+    return typeof statusCode === 'number' ? statusCode : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function requestUrl(options: JiraRequestOptions): URL {
+  const url = new URL(options.uri);
+  Object.entries(options.qs || {}).forEach(([key, value]) => {
+    if (value !== undefined) url.searchParams.set(key, String(value));
+  });
+  return url;
+}
+
+// One round trip, rejecting with the status and Retry-After header that jira-client's own request function drops
+function send(options: JiraRequestOptions): Promise<unknown> {
+  return new Promise((resolve, reject) => {
+    request(options, (error, response) => {
+      if (error) {
+        reject(error);
+        return;
+      }
+      if (response.statusCode >= 400) {
+        reject(new JiraHttpError(response.statusCode, response.body, response.headers['retry-after']));
+        return;
+      }
+      resolve(response.body);
+    });
+  });
+}
+
+function isUnauthorized(error: unknown): boolean {
+  return error instanceof JiraHttpError && error.statusCode === 401;
+}
+
+function isRetryable(error: unknown): boolean {
+  if (error instanceof JiraHttpError) return RETRY_STATUS_CODES.includes(error.statusCode);
+  const code = (error as NodeJS.ErrnoException | undefined)?.code;
+  return !!code && RETRY_ERROR_CODES.includes(code);
+}
+
+// Retry-After is either a number of seconds or an HTTP date
+function retryAfterMs(value: string | undefined): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (!isNaN(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+// Exponential backoff with jitter, unless Jira said how long to wait
+export function retryDelayMs(error: unknown, attempt: number): number {
+  const requested = error instanceof JiraHttpError ? retryAfterMs(error.retryAfter) : undefined;
+  if (requested !== undefined) return Math.min(requested, MAX_DELAY_MS);
+  const backoff = BASE_DELAY_MS * 2 ** attempt;
+  return Math.min(backoff / 2 + Math.random() * backoff / 2, MAX_DELAY_MS);
+}
+
+function describe(error: unknown): string {
+  if (error instanceof JiraHttpError) return `Jira answered ${error.statusCode}`;
+  return error instanceof Error ? error.message : String(error);
+}
+
+// Request function for jira-client that retries rate limits and transient failures.
+// Every call this tool makes only reads from Jira, so searches sent as POST are safe to repeat too.
+// With a recorder, the final answer to each request is also kept as a fixture. With refreshBearer, a request
+// turned away with 401 is sent once more with a fresh bearer token, which later requests then use too.
+export function createJiraRequest(
+  maxRetries: number = DEFAULT_MAX_RETRIES,
+  recorder?: FixtureRecorder,
+  refreshBearer?: () => Promise<string>
+): JiraRequest {
+  let bearer: string | undefined;
+
+  return async options => {
+    const method = options.method || 'GET';
+    let refreshed = false;
+    for (let attempt = 0; ; attempt++) {
+      const sentBearer = bearer;
+      try {
+        const result = await send(sentBearer ? { ...options, auth: { ...options.auth, bearer: sentBearer } } : options);
+        recorder?.record(method, requestUrl(options), options.body, 200, result);
+        return result;
+      } catch (error) {
+        if (refreshBearer && !refreshed && isUnauthorized(error)) {
+          refreshed = true;
+          // Another request may have refreshed the token while this one was under way
+          if (bearer === sentBearer) bearer = await refreshBearer();
+          console.warn(chalk.yellow(`${describe(error)} for ${method} ${new URL(options.uri).pathname}, retrying with a refreshed token`));
+          continue;
+        }
+        if (attempt >= maxRetries || !isRetryable(error)) {
+          if (error instanceof JiraHttpError) recorder?.record(method, requestUrl(options), options.body, error.statusCode, error.body);
+          throw error;
+        }
+        const delay = retryDelayMs(error, attempt);
+        console.warn(chalk.yellow(`${describe(error)} for ${method} ${new URL(options.uri).pathname}, retrying in ${Math.ceil(delay / 1000)}s (${attempt + 1}/${maxRetries})`));
+        await new Promise(resolve => setTimeout(resolve, delay));
+      }
+    }
+  };
+}
@@ -0,0 +1,252 @@
+import JiraClient from 'jira-client';
+import { Workflow, toJqlList } from '../workflow';
+import { CachedSprint, JiraCache } from './cache';
+import { completeIssueDetails, countIssues, searchAllIssues } from './paginate';
+import { BoardRef } from '../types';
+import { JiraIssue, JiraSprint, JiraUser } from './types';
+
+const ISSUE_FIELDS = ['summary', 'status', 'assignee', 'created', 'timetracking', 'worklog', 'timeoriginalestimate'];
+
+// Keys per "key in (...)" search, keeping the JQL well under Jira's length limit
+const KEY_BATCH_SIZE = 100;
+
+// Extra minutes subtracted from the last run when asking Jira for updated issues, to absorb clock skew
+const UPDATED_SINCE_MARGIN_MINUTES = 5;
+
+export interface SprintIssues {
+  issues: JiraIssue[];
+  total: number;
+  uatTotal: number;
+  noEstimateIssues: Array<{key: string; assignee: JiraUser | null}>;
+  // Issues that left the sprint while it ran, which "sprint = X" no longer returns
+  removedIssues: JiraIssue[];
+  // Custom field holding story points, when JIRA_STORY_POINTS_FIELD is set
+  storyPointsField?: string;
+  // When the issues were fetched; open issues are measured up to this moment
+  fetchedAt: string;
+}
+
+interface CachedSprintIssues {
+  entry: CachedSprint;
+  issues: JiraIssue[];
+  removedIssues: JiraIssue[];
+}
+
+// Read at call time rather than import time so values from the .env file are picked up
+function storyPointsField(): string | undefined {
+  return process.env.JIRA_STORY_POINTS_FIELD || undefined;
+}
+
+// Search issues with everything the report needs, including complete worklogs and changelogs
+async function fetchIssues(jira: JiraClient, jql: string): Promise<JiraIssue[]> {
+  const pointsField = storyPointsField();
+  const issues = await searchAllIssues(jira, jql, {
+    fields: pointsField ? [...ISSUE_FIELDS, pointsField] : ISSUE_FIELDS,
+    expand: ['changelog']
+  });
+  return completeIssueDetails(jira, issues);
+}
+
+// The handles people are keyed by, plus the name they are shown by, without avatars and the like
+function userRef(user: JiraUser): JiraUser {
+  const { accountId, key, name, displayName } = user;
+  return { accountId, key, name, displayName };
+}
+
+// Whether the changelog shows the issue being taken out of the sprint
+function leftSprint(issue: JiraIssue, sprint: JiraSprint): boolean {
+  const listed = (ids?: string | null, names?: string) =>
+    [...(ids || '').split(','), ...(names || '').split(',')]
+      .map(entry => entry.trim())
+      .some(entry => entry === String(sprint.id) || entry === sprint.name);
+
+  return (issue.changelog?.histories || []).some(history =>
+    history.items.some(item => item.field === 'Sprint' && listed(item.from, item.fromString) && !listed(item.to, item.toString))
+  );
+}
+
+// Finds the issues taken out of a board's sprints while they ran, which "sprint = X" no longer returns.
+// Only keys are searched for in each sprint's window; changelogs are then fetched for those candidates,
+// once per issue for all of the board's sprints, since an issue is often a candidate for several.
+export class RemovedIssueFinder {
+  private readonly jira: JiraClient;
+  private readonly board: BoardRef;
+  private readonly changelogs = new Map<string, Promise<JiraIssue | undefined>>();
+
+  constructor(jira: JiraClient, board: BoardRef) {
+    this.jira = jira;
+    this.board = board;
+  }
+
+  // Issues of the project that were around during the sprint and are not in it now. A removed issue was
+  // updated when it left, so after the sprint started, and created before the sprint ended.
+  private async searchCandidates(sprint: JiraSprint): Promise<string[]> {
+    const end = sprint.state === 'closed' && sprint.endDate
+      ? ` AND created < "${new Date(Date.parse(sprint.endDate) + 24 * 3600000).toISOString().slice(0, 10)}"` : '';
+    const jql = `project = "${this.board.projectKey}" AND updated >= "${sprint.startDate.slice(0, 10)}"${end}` +
+      ` AND (sprint is EMPTY OR sprint != ${sprint.id})`;
+    return (await searchAllIssues(this.jira, jql, { fields: ['key'] })).map(issue => issue.key);
+  }
+
+  // Complete changelogs of the issues, searched for the keys not asked for before. A failed search is
+  // forgotten so the next sprint tries those issues again.
+  private withChangelogs(keys: string[]): Promise<Array<JiraIssue | undefined>> {
+    const missing = keys.filter(key => !this.changelogs.has(key));
+    for (let index = 0; index < missing.length; index += KEY_BATCH_SIZE) {
+      const batch = missing.slice(index, index + KEY_BATCH_SIZE);
+      const search = searchAllIssues(this.jira, `key in (${batch.join(', ')})`, { fields: ['key'], expand: ['changelog'] })
+        .then(issues => completeIssueDetails(this.jira, issues));
+      search.catch(() => batch.forEach(key => this.changelogs.delete(key)));
+      batch.forEach(key => this.changelogs.set(key, search.then(issues => issues.find(issue => issue.key === key))));
+    }
+    return Promise.all(keys.map(key => this.changelogs.get(key)));
+  }
+
+  // Issues that are no longer in the sprint, but were at some point
+  async find(sprint: JiraSprint, sprintKeys: string[]): Promise<JiraIssue[]> {
+    if (!sprint.startDate) return [];
+
+    const inSprint = new Set(sprintKeys);
+    const candidates = (await this.searchCandidates(sprint)).filter(key => !inSprint.has(key));
+    const removedKeys = (await this.withChangelogs(candidates))
+      .filter((issue): issue is JiraIssue => issue !== undefined && leftSprint(issue, sprint))
+      .map(issue => issue.key);
+
+    return removedKeys.length ? fetchIssues(this.jira, `key in (${removedKeys.join(', ')})`) : [];
+  }
+}
+
+function toSprintIssues(cached: CachedSprintIssues): SprintIssues {
+  const { entry, issues, removedIssues } = cached;
+  return {
+    issues,
+    total: issues.length,
+    uatTotal: entry.uatTotal,
+    // Older caches only hold the assignee's display name
+    noEstimateIssues: entry.noEstimateIssues.map(issue => ({
+      key: issue.key,
+      assignee: typeof issue.assignee === 'string' ? { displayName: issue.assignee } : issue.assignee
+    })),
+    removedIssues,
+    storyPointsField: storyPointsField(),
+    fetchedAt: entry.fetchedAt
+  };
+}
+
+function readCachedIssues(cache: JiraCache, keys: string[]): JiraIssue[] | undefined {
+  const issues: JiraIssue[] = [];
+  for (const key of keys) {
+    const issue = cache.readIssue(key);
+    if (!issue) return undefined;
+    issues.push(issue);
+  }
+  return issues;
+}
+
+// Read a cached sprint and all of its issues, or undefined when anything is missing
+function readCachedSprint(cache: JiraCache, sprintId: number): CachedSprintIssues | undefined {
+  const entry = cache.readSprint(sprintId);
+  if (!entry) return undefined;
+
+  const issues = readCachedIssues(cache, entry.issueKeys);
+  const removedIssues = readCachedIssues(cache, entry.removedIssueKeys || []);
+  if (!issues || !removedIssues) return undefined;
+  return { entry, issues, removedIssues };
+}
+
+// Closed sprints can never change, so their cached data is final
+function isFinal(cached: CachedSprintIssues | undefined): boolean {
+  return !!cached && cached.entry.sprint.state === 'closed';
+}
+
+// Stand-in for a sprint that could not be fetched, so it still gets a (failed) row in the report
+export function emptySprintIssues(fetchedAt: string = new Date().toISOString()): SprintIssues {
+  return { issues: [], total: 0, uatTotal: 0, noEstimateIssues: [], removedIssues: [], fetchedAt };
+}
+
+export async function getSprintIssues(
+  jira: JiraClient,
+  cache: JiraCache,
+  sprint: JiraSprint,
+  workflow: Workflow,
+  removedIssueFinder: RemovedIssueFinder
+): Promise<SprintIssues> {
+  try {
+    const cached = readCachedSprint(cache, sprint.id);
+
+    if (cache.offline) {
+      if (!cached) {
+        throw new Error(`Offline mode: sprint ${sprint.name} (${sprint.id}) is not in the cache`);
+      }
+      return toSprintIssues(cached);
+    }
+
+    if (cached && isFinal(cached)) {
+      console.log(`Using cached data for closed sprint ${sprint.id}`);
+      return toSprintIssues(cached);
+    }
+
+    const fetchedAt = new Date().toISOString();
+    const jql = `sprint = ${sprint.id}`;
+    let issues: JiraIssue[];
+
+    if (cached) {
+      // Only refetch issues updated since the last run, then rebuild the sprint from the current key list
+      const minutesSinceLastRun = Math.ceil((Date.now() - new Date(cached.entry.fetchedAt).getTime()) / 60000);
+      const updated = await fetchIssues(jira, `${jql} AND updated >= -${minutesSinceLastRun + UPDATED_SINCE_MARGIN_MINUTES}m`);
+      const keys = (await searchAllIssues(jira, jql, { fields: ['key'] })).map(issue => issue.key);
+
+      const issuesByKey = new Map<string, JiraIssue>();
+      cached.issues.forEach(issue => issuesByKey.set(issue.key, issue));
+      updated.forEach(issue => issuesByKey.set(issue.key, issue));
+
+      // Issues can be in the sprint without being cached yet, e.g. when moved in by a bulk change
+      const missingKeys = keys.filter(key => !issuesByKey.has(key));
+      if (missingKeys.length) {
+        const missing = await fetchIssues(jira, `key in (${missingKeys.join(', ')})`);
+        missing.forEach(issue => issuesByKey.set(issue.key, issue));
+      }
+
+      issues = keys
+        .map(key => issuesByKey.get(key))
+        .filter((issue): issue is JiraIssue => issue !== undefined);
+      console.log(`Refetched ${updated.length + missingKeys.length} of ${issues.length} issues in sprint ${sprint.id}`);
+    } else {
+      issues = await fetchIssues(jira, jql);
+    }
+
+    // Only a few issues leave a sprint, so these are refetched in full on every run
+    const removedIssues = await removedIssueFinder.find(sprint, issues.map(issue => issue.key));
+
+    // Count issues that reached a ship status (e.g. UAT Ready) during the sprint
+    const uatJql = `sprint = ${sprint.id} AND status was in ${toJqlList(workflow.ship.to)}`;
+    const uatTotal = await countIssues(jira, uatJql);
+
+    // Get issues without original estimate - updated query to match JIRA's syntax
+    const noEstimateJql = `sprint = ${sprint.id} AND (originalEstimate is EMPTY OR originalEstimate = 0)`;
+    const noEstimateIssues = await searchAllIssues(jira, noEstimateJql, {
+      fields: ['key', 'assignee']
+    });
+
+    console.log(`Found ${noEstimateIssues.length} issues without estimates in sprint ${sprint.id}`);
+
+    const entry: CachedSprint = {
+      sprint,
+      fetchedAt,
+      issueKeys: issues.map(issue => issue.key),
+      uatTotal,
+      removedIssueKeys: removedIssues.map(issue => issue.key),
+      noEstimateIssues: noEstimateIssues.map(issue => ({
+        key: issue.key,
+        assignee: issue.fields.assignee ? userRef(issue.fields.assignee) : null
+      }))
+    };
+    [...issues, ...removedIssues].forEach(issue => cache.writeIssue(issue));
+    cache.writeSprint(entry);
+
+    return toSprintIssues({ entry, issues, removedIssues });
+  } catch (error) {
+    console.error('Error fetching sprint issues:', error);
+    throw error;
+  }
+}
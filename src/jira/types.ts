@@ -0,0 +1,80 @@
+export interface JiraBoard {
+  id: number;
+  name: string;
+  type?: 'scrum' | 'kanban' | 'simple';
+  location?: {
+    projectKey?: string;
+  };
+}
+
+export interface JiraSprint {
+  id: number;
+  name: string;
+  state?: 'future' | 'active' | 'closed';
+  startDate: string;
+  endDate: string;
+}
+
+// Cloud users carry an accountId; Server/Data Center users a key and a name
+export interface JiraUser {
+  accountId?: string;
+  key?: string;
+  name?: string;
+  displayName: string;
+}
+
+export interface JiraWorklog {
+  author: JiraUser;
+  started: string;
+  timeSpentSeconds: number;
+}
+
+export interface JiraChangelogItem {
+  field: string;
+  fromString: string;
+  toString: string;
+  author: JiraUser;
+}
+
+export interface JiraChangelog {
+  author?: JiraUser;
+  created: string;
+  items: Array<{
+    field: string;
+    // Only sent by Jira Cloud, e.g. customfield_10016
+    fieldId?: string;
+    // Raw values; for the Sprint field these are comma separated sprint ids
+    from?: string | null;
+    to?: string | null;
+    fromString: string;
+    toString: string;
+  }>;
+}
+
+export interface JiraIssue {
+  id?: string;
+  key: string;
+  fields: {
+    summary?: string;
+    created?: string;
+    assignee?: JiraUser;
+    timeoriginalestimate?: number;
+    status: {
+      name: string;
+    };
+    worklog?: {
+      startAt?: number;
+      maxResults?: number;
+      total?: number;
+      worklogs: JiraWorklog[];
+    };
+    // Custom fields such as story points, looked up by their configured id
+    [customField: string]: unknown;
+  };
+  changelog?: {
+    startAt?: number;
+    maxResults?: number;
+    total?: number;
+    histories: JiraChangelog[];
+  };
+}
@@ -0,0 +1,134 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vm from 'vm';
+import { readJsonConfig } from './config';
+
+export type Theme = 'light' | 'dark' | 'print';
+export const THEMES: Theme[] = ['light', 'dark', 'print'];
+
+// Sections of template.html by element id, in their default order. The Trends tab is always there.
+export const BUILT_IN_SECTIONS = [
+  'leaderboard', 'summary', 'rollup', 'missingEstimates', 'completion', 'reviewers', 'shippers',
+  'spillover', 'carryover', 'points', 'flow', 'estimates'
+];
+
+// A section added by the team: a script holding one function expression, (sprints, helpers) => HTML,
+// called with the filtered sprint summaries whenever the filters change
+export interface CustomSectionConfig {
+  id: string;
+  title: string;
+  // Relative to the working directory, like the other config paths
+  script: string;
+}
+
+export interface LayoutConfig {
+  theme: Theme;
+  // Section ids to show, in order, built-in and custom alike; null shows every built-in section,
+  // then the custom ones
+  sections: string[] | null;
+  customSections: CustomSectionConfig[];
+}
+
+export const DEFAULT_LAYOUT_CONFIG_PATH = path.join('config', 'layout.json');
+
+export const DEFAULT_LAYOUT_CONFIG: LayoutConfig = { theme: 'light', sections: null, customSections: [] };
+
+// Check the shape of a parsed layout config and the custom section scripts, throwing with every problem found
+export function validateLayoutConfig(value: unknown): LayoutConfig {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new Error('Invalid layout config: expected an object with "theme", "sections" and/or "customSections"');
+  }
+
+  const errors: string[] = [];
+  const { theme, sections, customSections, ...rest } = value as { [name: string]: unknown };
+  Object.keys(rest).forEach(name => errors.push(`unknown key "${name}"`));
+
+  if (theme !== undefined && !THEMES.includes(theme as Theme)) {
+    errors.push(`theme must be one of ${THEMES.map(entry => `"${entry}"`).join(', ')}`);
+  }
+
+  const customIds: string[] = [];
+  if (customSections !== undefined && !Array.isArray(customSections)) {
+    errors.push('customSections must be an array');
+  }
+  (Array.isArray(customSections) ? customSections : []).forEach((section, index) => {
+    const label = `customSections[${index}]`;
+    if (typeof section !== 'object' || section === null || Array.isArray(section)) {
+      errors.push(`${label} must be an object`);
+      return;
+    }
+    const { id, title, script, ...extra } = section as { [name: string]: unknown };
+    Object.keys(extra).forEach(key => errors.push(`${label}: unknown key "${key}"`));
+
+    // The id becomes the section's element id and its name in the URL hash
+    if (typeof id !== 'string' || !/^[A-Za-z][\w-]*$/.test(id)) {
+      errors.push(`${label}: id must start with a letter and hold only letters, digits, - and _`);
+    } else if (BUILT_IN_SECTIONS.includes(id) || id === 'trends' || customIds.includes(id)) {
+      errors.push(`${label}: id "${id}" is already used`);
+    } else {
+      customIds.push(id);
+    }
+    if (typeof title !== 'string' || !title.trim()) errors.push(`${label}: title is required`);
+    if (typeof script !== 'string' || !script.trim()) {
+      errors.push(`${label}: script is required`);
+    } else {
+      const problem = checkSectionScript(script);
+      if (problem) errors.push(`${label}: ${problem}`);
+    }
+  });
+
+  if (sections !== undefined && sections !== null) {
+    if (!Array.isArray(sections) || sections.some(id => typeof id !== 'string')) {
+      errors.push('sections must be an array of section ids');
+    } else {
+      const known = [...BUILT_IN_SECTIONS, ...customIds];
+      sections.filter(id => !known.includes(id))
+        .forEach(id => errors.push(`sections: unknown section "${id}" (expected one of ${known.join(', ')})`));
+      sections.filter((id, index) => sections.indexOf(id) !== index)
+        .forEach(id => errors.push(`sections: "${id}" is listed twice`));
+    }
+  }
+
+  if (errors.length) {
+    throw new Error(`Invalid layout config:\n  - ${errors.join('\n  - ')}`);
+  }
+
+  return {
+    theme: (theme as Theme | undefined) || DEFAULT_LAYOUT_CONFIG.theme,
+    sections: (sections as string[] | null | undefined) || null,
+    customSections: (customSections as CustomSectionConfig[] | undefined) || []
+  };
+}
+
+function readSectionScript(script: string): string {
+  return fs.readFileSync(path.resolve(script), 'utf8').trim().replace(/;$/, '');
+}
+
+// Why a custom section script cannot be inlined in the report, or null when it can
+function checkSectionScript(script: string): string | null {
+  const scriptPath = path.resolve(script);
+  if (!fs.existsSync(scriptPath)) return `script not found: ${scriptPath}`;
+
+  const code = readSectionScript(script);
+  if (/<\/script/i.test(code)) return `${script} must not contain "</script"`;
+  try {
+    new vm.Script(`(${code}\n)`, { filename: scriptPath });
+  } catch (error) {
+    return `${script} is not a function expression: ${error instanceof Error ? error.message : error}`;
+  }
+  return null;
+}
+
+export function loadLayoutConfig(configPath?: string): LayoutConfig {
+  const parsed = readJsonConfig('Layout', DEFAULT_LAYOUT_CONFIG_PATH, 'JIRA_LAYOUT_CONFIG', configPath);
+  return parsed === undefined ? DEFAULT_LAYOUT_CONFIG : validateLayoutConfig(parsed);
+}
+
+// The layout as a JavaScript object literal for the template, with the custom section functions inlined
+export function layoutScript(layout: LayoutConfig): string {
+  const customSections = layout.customSections.map(section => {
+    const render = readSectionScript(section.script);
+    return `{ id: ${JSON.stringify(section.id)}, title: ${JSON.stringify(section.title)}, render: (${render}\n) }`;
+  });
+  return `{ theme: ${JSON.stringify(layout.theme)}, sections: ${JSON.stringify(layout.sections)}, customSections: [${customSections.join(', ')}] }`;
+}
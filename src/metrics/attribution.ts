@@ -0,0 +1,126 @@
+import { JiraChangelog } from '../jira/types';
+import { PeopleDirectory } from '../people';
+import { ResolvedTransition, Workflow } from '../workflow';
+
+// Without a people config every account is its own person and nobody is excluded
+const NO_PEOPLE_CONFIG = new PeopleDirectory();
+
+export interface Attribution {
+  // Person id, or Unknown for excluded (automation) accounts
+  person: string;
+  date: string;
+  // The status change that earned the credit
+  from: string;
+  to: string;
+  // False when credited through a fallback transition; the issue key then gets an asterisk
+  direct: boolean;
+  // Why the fallback was used, for indirect credits
+  reason?: string;
+}
+
+export interface StatusMove {
+  // Person id credited with the move
+  author: string;
+  created: string;
+  from: string;
+  to: string;
+}
+
+// Sort changelog histories oldest first without mutating the issue
+export function sortHistories(histories: JiraChangelog[]): JiraChangelog[] {
+  return [...histories].sort(
+    (a: JiraChangelog, b: JiraChangelog) => new Date(a.created).getTime() - new Date(b.created).getTime()
+  );
+}
+
+function quoted(statuses: string[]): string {
+  return statuses.map(status => `"${status}"`).join(' / ');
+}
+
+function attribute(move: StatusMove, reason?: string): Attribution {
+  return { person: move.author, date: move.created, from: move.from, to: move.to, direct: !reason, reason };
+}
+
+// Flatten the changelog into status transitions in chronological order
+export function statusMoves(histories: JiraChangelog[], people: PeopleDirectory = NO_PEOPLE_CONFIG): StatusMove[] {
+  const moves: StatusMove[] = [];
+  for (const history of sortHistories(histories)) {
+    for (const item of history.items) {
+      if (item.field === 'status') {
+        moves.push({
+          author: people.credit(history.author),
+          created: history.created,
+          from: item.fromString,
+          to: item.toString
+        });
+      }
+    }
+  }
+  return moves;
+}
+
+// Who first moved the issue to a start status; falls back to whoever first moved it out of the backlog
+export function findStarter(
+  histories: JiraChangelog[],
+  workflow: Workflow,
+  people: PeopleDirectory = NO_PEOPLE_CONFIG
+): Attribution | undefined {
+  const moves = statusMoves(histories, people);
+
+  const started = moves.find(move => workflow.start.to.includes(move.to));
+  if (started) {
+    return attribute(started, workflow.start.from.includes(started.from)
+      ? undefined
+      : `Started from "${started.from}" rather than ${quoted(workflow.start.from)}`);
+  }
+
+  const leftBacklog = moves.find(move => workflow.start.from.includes(move.from));
+  if (leftBacklog) {
+    return attribute(leftBacklog, `Never moved to ${quoted(workflow.start.to)}; credited for moving it out of "${leftBacklog.from}"`);
+  }
+
+  return undefined;
+}
+
+// When the issue last reached a done status, if it is done now
+export function findCompletion(histories: JiraChangelog[], workflow: Workflow, currentStatus: string): Attribution | undefined {
+  if (!workflow.done.to.includes(currentStatus)) return undefined;
+
+  const done = [...statusMoves(histories)].reverse().find(move => workflow.done.to.includes(move.to));
+  return done ? attribute(done) : undefined;
+}
+
+// Who made the role's transition; falls back to whoever first moved the issue out of its "from" status
+function findTransition(histories: JiraChangelog[], transition: ResolvedTransition, people: PeopleDirectory): Attribution | undefined {
+  const moves = statusMoves(histories, people);
+
+  const direct = moves.find(move => transition.from.includes(move.from) && transition.to.includes(move.to));
+  if (direct) {
+    return attribute(direct);
+  }
+
+  const fallback = moves.find(move => transition.from.includes(move.from));
+  if (fallback) {
+    return attribute(fallback, `Never moved from ${quoted(transition.from)} to ${quoted(transition.to)}; credited for moving it on to "${fallback.to}"`);
+  }
+
+  return undefined;
+}
+
+// Who reviewed the issue (e.g. PR Ready to Testing)
+export function findReviewer(
+  histories: JiraChangelog[],
+  workflow: Workflow,
+  people: PeopleDirectory = NO_PEOPLE_CONFIG
+): Attribution | undefined {
+  return findTransition(histories, workflow.review, people);
+}
+
+// Who shipped the issue (e.g. Testing to UAT Ready)
+export function findShipper(
+  histories: JiraChangelog[],
+  workflow: Workflow,
+  people: PeopleDirectory = NO_PEOPLE_CONFIG
+): Attribution | undefined {
+  return findTransition(histories, workflow.ship, people);
+}
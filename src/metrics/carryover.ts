@@ -0,0 +1,99 @@
+import { JiraChangelog, JiraIssue, JiraSprint } from '../jira/types';
+import { PeopleDirectory, assigneeId } from '../people';
+import { CarryOverIssue, SprintExit, SprintVisit } from '../types';
+import { SprintRef, sprintFieldChanges } from './scope';
+
+interface OpenVisit extends SprintVisit {
+  ref: SprintRef;
+}
+
+function sameSprint(a: SprintRef, b: SprintRef): boolean {
+  return a.id && b.id ? a.id === b.id : a.name === b.name;
+}
+
+function toRef(sprint: JiraSprint): SprintRef {
+  return { id: String(sprint.id), name: sprint.name };
+}
+
+// Replay the Sprint field history into the sprints the issue passed through, oldest first.
+// Jira keeps closed sprints in the field, so moving on to a new sprint closes every visit still listed.
+export function sprintTimeline(
+  issue: JiraIssue,
+  histories: JiraChangelog[],
+  sprint: JiraSprint,
+  sprintHistory: JiraSprint[]
+): SprintVisit[] {
+  const changes = sprintFieldChanges(histories);
+  const known = [...sprintHistory, sprint];
+  const visits: OpenVisit[] = [];
+
+  const open = (ref: SprintRef, addedAt: string | null) => visits.push({
+    ref,
+    sprintId: ref.id ? Number(ref.id) : null,
+    sprintName: ref.name,
+    addedAt,
+    leftAt: null,
+    exit: null
+  });
+  const close = (visit: OpenVisit, leftAt: string, exit: SprintExit) => {
+    visit.leftAt = leftAt;
+    visit.exit = exit;
+  };
+  const ranAt = (ref: SprintRef, date: Date) => {
+    const match = known.find(candidate => sameSprint(toRef(candidate), ref));
+    return !!match && !!match.startDate && new Date(match.startDate) <= date && date <= new Date(match.endDate);
+  };
+
+  // Whatever the first change moved the issue out of, it was in from the start
+  if (changes.length) changes[0].from.forEach(ref => open(ref, null));
+
+  for (const change of changes) {
+    const at = change.created.toISOString();
+    const entered = change.to.filter(ref => !change.from.some(other => sameSprint(ref, other)));
+    const left = change.from.filter(ref => !change.to.some(other => sameSprint(ref, other)));
+
+    for (const visit of visits.filter(candidate => !candidate.leftAt)) {
+      if (left.some(ref => sameSprint(ref, visit.ref))) {
+        close(visit, at, entered.length ? 'carried' : ranAt(visit.ref, change.created) ? 'removed' : 'backlog');
+      } else if (entered.length) {
+        close(visit, at, 'carried');
+      }
+    }
+    entered.forEach(ref => open(ref, at));
+  }
+
+  // Created straight into the sprint, or moved there before the history was recorded
+  const current = toRef(sprint);
+  if (!visits.some(visit => sameSprint(visit.ref, current))) {
+    open(current, issue.fields.created || null);
+  }
+
+  return visits.map(({ ref, ...visit }) => visit);
+}
+
+// Carry-over of one issue as seen from the reported sprint, or undefined when it only ever sat in that sprint
+export function computeCarryOver(
+  issue: JiraIssue,
+  histories: JiraChangelog[],
+  done: boolean,
+  sprint: JiraSprint,
+  sprintHistory: JiraSprint[],
+  people: PeopleDirectory
+): CarryOverIssue | undefined {
+  const timeline = sprintTimeline(issue, histories, sprint, sprintHistory);
+  const current = toRef(sprint);
+  const visit = timeline.filter(candidate =>
+    sameSprint({ id: candidate.sprintId !== null ? String(candidate.sprintId) : undefined, name: candidate.sprintName }, current)).pop();
+  const exit = visit ? visit.exit : null;
+
+  if (timeline.length < 2 && !exit) return undefined;
+
+  return {
+    key: issue.key,
+    assignee: assigneeId(issue, people),
+    done,
+    rollovers: timeline.filter(candidate => candidate.exit === 'carried').length,
+    exit,
+    timeline
+  };
+}
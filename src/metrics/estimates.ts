@@ -0,0 +1,88 @@
+import { JiraIssue } from '../jira/types';
+import { PeopleDirectory, assigneeId } from '../people';
+import { EstimateIssue, EstimateRollup, EstimateStats } from '../types';
+
+const UNASSIGNED = 'Unassigned';
+
+// Ratio buckets for the over/under-estimate distribution, upper bound exclusive
+export const ESTIMATE_BUCKETS: Array<{ label: string; max: number }> = [
+  { label: '< 50%', max: 0.5 },
+  { label: '50–80%', max: 0.8 },
+  { label: '80–120%', max: 1.2 },
+  { label: '120–150%', max: 1.5 },
+  { label: '150–200%', max: 2 },
+  { label: '≥ 200%', max: Infinity }
+];
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+// Compare the original estimate with all time logged on the issue, whichever sprint it was logged in.
+// Issues without an estimate or without any logged time have nothing to compare and are skipped.
+export function computeEstimateIssue(
+  issue: JiraIssue,
+  done: boolean,
+  overrunRatio: number,
+  people: PeopleDirectory
+): EstimateIssue | undefined {
+  const estimateSeconds = issue.fields.timeoriginalestimate || 0;
+  const loggedSeconds = (issue.fields.worklog ? issue.fields.worklog.worklogs : [])
+    .reduce((sum, worklog) => sum + worklog.timeSpentSeconds, 0);
+  if (!estimateSeconds || !loggedSeconds) return undefined;
+
+  return withLoggedSeconds({ key: issue.key, assignee: assigneeId(issue, people), done, estimateSeconds }, loggedSeconds, overrunRatio);
+}
+
+// Set the logged time of an issue and the ratio and overrun that follow from it
+export function withLoggedSeconds(
+  issue: Pick<EstimateIssue, 'key' | 'assignee' | 'done' | 'estimateSeconds'>,
+  loggedSeconds: number,
+  overrunRatio: number
+): EstimateIssue {
+  const ratio = loggedSeconds / issue.estimateSeconds;
+  return { ...issue, loggedSeconds, ratio: round(ratio), overrun: ratio > overrunRatio };
+}
+
+function rollup(issues: EstimateIssue[]): EstimateRollup {
+  const estimateSeconds = issues.reduce((sum, issue) => sum + issue.estimateSeconds, 0);
+  const loggedSeconds = issues.reduce((sum, issue) => sum + issue.loggedSeconds, 0);
+
+  const ratios = issues.map(issue => issue.ratio).sort((a, b) => a - b);
+  const middle = Math.floor(ratios.length / 2);
+  const medianRatio = !ratios.length ? null
+    : ratios.length % 2 ? ratios[middle] : round((ratios[middle - 1] + ratios[middle]) / 2);
+
+  const distribution: { [bucket: string]: number } = {};
+  ESTIMATE_BUCKETS.forEach(bucket => { distribution[bucket.label] = 0; });
+  issues.forEach(issue => {
+    const bucket = ESTIMATE_BUCKETS.find(candidate => issue.ratio < candidate.max)!;
+    distribution[bucket.label]++;
+  });
+
+  return {
+    count: issues.length,
+    estimateSeconds,
+    loggedSeconds,
+    ratio: estimateSeconds ? round(loggedSeconds / estimateSeconds) : null,
+    medianRatio,
+    overruns: issues.filter(issue => issue.overrun).length,
+    distribution
+  };
+}
+
+// Roll the compared issues up for the sprint and per current assignee
+export function computeEstimateStats(issues: EstimateIssue[], overrunRatio: number): EstimateStats {
+  const assignees: EstimateStats['assignees'] = {};
+  const names = new Set(issues.map(issue => issue.assignee || UNASSIGNED));
+  for (const name of names) {
+    assignees[name] = rollup(issues.filter(issue => (issue.assignee || UNASSIGNED) === name));
+  }
+
+  return {
+    overrunRatio,
+    total: rollup(issues),
+    assignees,
+    issues
+  };
+}
@@ -0,0 +1,134 @@
+import { JiraChangelog, JiraIssue } from '../jira/types';
+import { PeopleDirectory, assigneeId } from '../people';
+import { DurationStats, FlowStats, IssueFlow } from '../types';
+import { Workflow } from '../workflow';
+import { findCompletion, findStarter, statusMoves } from './attribution';
+
+const UNASSIGNED = 'Unassigned';
+const HOUR_MS = 1000 * 60 * 60;
+
+function toHours(ms: number): number {
+  return Math.round((ms / HOUR_MS) * 10) / 10;
+}
+
+// Nearest-rank percentile, so p85 is always a duration that actually happened
+function percentile(sorted: number[], fraction: number): number {
+  return sorted[Math.max(Math.ceil(fraction * sorted.length) - 1, 0)];
+}
+
+export function durationStats(hours: number[]): DurationStats {
+  if (!hours.length) {
+    return { count: 0, medianHours: null, p85Hours: null };
+  }
+
+  const sorted = [...hours].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  const median = sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+
+  return {
+    count: sorted.length,
+    medianHours: Math.round(median * 10) / 10,
+    p85Hours: percentile(sorted, 0.85)
+  };
+}
+
+// Walk the status transitions and add up how long the issue sat in each status. Time before the
+// first transition counts from creation, and the current status is measured up to `until`.
+export function computeTimeInStatus(
+  issue: JiraIssue,
+  histories: JiraChangelog[],
+  workflow: Workflow,
+  until: Date
+): { [status: string]: number } {
+  const moves = statusMoves(histories);
+  const durations: { [status: string]: number } = {};
+
+  const add = (status: string, from: Date, to: Date) => {
+    const ms = to.getTime() - from.getTime();
+    if (ms <= 0 || workflow.done.to.includes(status)) return;
+    durations[status] = (durations[status] || 0) + ms;
+  };
+
+  let status = moves.length ? moves[0].from : issue.fields.status.name;
+  let since = issue.fields.created ? new Date(issue.fields.created) : undefined;
+
+  for (const move of moves) {
+    const movedAt = new Date(move.created);
+    if (since) add(status, since, movedAt);
+    status = move.to;
+    since = movedAt;
+  }
+  if (since) add(status, since, until);
+
+  const hours: { [status: string]: number } = {};
+  Object.entries(durations).forEach(([name, ms]) => { hours[name] = toHours(ms); });
+  return hours;
+}
+
+// Cycle and lead time of one issue; both are null until the issue is done
+export function computeIssueFlow(
+  issue: JiraIssue,
+  histories: JiraChangelog[],
+  workflow: Workflow,
+  until: Date,
+  people: PeopleDirectory
+): IssueFlow {
+  const done = workflow.done.to.includes(issue.fields.status.name);
+  const completion = findCompletion(histories, workflow, issue.fields.status.name);
+
+  let cycleTimeHours: number | null = null;
+  let leadTimeHours: number | null = null;
+  if (completion) {
+    const doneAt = new Date(completion.date).getTime();
+    const starter = findStarter(histories, workflow);
+    if (starter) {
+      cycleTimeHours = toHours(doneAt - new Date(starter.date).getTime());
+    }
+    if (issue.fields.created) {
+      leadTimeHours = toHours(doneAt - new Date(issue.fields.created).getTime());
+    }
+  }
+
+  return {
+    key: issue.key,
+    assignee: assigneeId(issue, people),
+    done,
+    cycleTimeHours,
+    leadTimeHours,
+    timeInStatusHours: computeTimeInStatus(issue, histories, workflow, until)
+  };
+}
+
+function collect(flows: IssueFlow[], pick: (flow: IssueFlow) => number | null): number[] {
+  return flows.map(pick).filter((hours): hours is number => hours !== null);
+}
+
+// Roll the per-issue figures up per sprint, per status and per assignee
+export function computeFlowStats(flows: IssueFlow[]): FlowStats {
+  const statuses = new Set<string>();
+  flows.forEach(flow => Object.keys(flow.timeInStatusHours).forEach(status => statuses.add(status)));
+
+  const timeInStatus: FlowStats['timeInStatus'] = {};
+  for (const status of statuses) {
+    timeInStatus[status] = durationStats(collect(flows, flow =>
+      flow.timeInStatusHours[status] !== undefined ? flow.timeInStatusHours[status] : null));
+  }
+
+  const assignees: FlowStats['assignees'] = {};
+  const assigneeNames = new Set(flows.filter(flow => flow.done).map(flow => flow.assignee || UNASSIGNED));
+  for (const assignee of assigneeNames) {
+    const assigned = flows.filter(flow => (flow.assignee || UNASSIGNED) === assignee);
+    assignees[assignee] = {
+      cycleTime: durationStats(collect(assigned, flow => flow.cycleTimeHours)),
+      leadTime: durationStats(collect(assigned, flow => flow.leadTimeHours))
+    };
+  }
+
+  return {
+    cycleTime: durationStats(collect(flows, flow => flow.cycleTimeHours)),
+    leadTime: durationStats(collect(flows, flow => flow.leadTimeHours)),
+    timeInStatus,
+    assignees,
+    issues: flows
+  };
+}
@@ -0,0 +1,339 @@
+import { isWithinSprintDays, sprintDays } from '../calendar';
+import { SprintIssues } from '../jira/sprintIssues';
+import { JiraIssue, JiraSprint, JiraWorklog } from '../jira/types';
+import {
+  AgeGroup,
+  BoardRef,
+  CarryOverIssue,
+  CreditRole,
+  EstimateIssue,
+  IssueCompletionStats,
+  IssueCredit,
+  IssueDetails,
+  ReviewerStats,
+  ShipperStats,
+  IssueFlow,
+  SpilloverStats,
+  SprintSummary
+} from '../types';
+import { Workflow } from '../workflow';
+import { PeopleDirectory, UNKNOWN_PERSON, assigneeId, referencedPeople } from '../people';
+import {
+  Attribution,
+  findReviewer,
+  findShipper,
+  findStarter,
+  sortHistories
+} from './attribution';
+import { computeCarryOver } from './carryover';
+import { computeEstimateIssue, computeEstimateStats } from './estimates';
+import { computeFlowStats, computeIssueFlow } from './flow';
+import { AgeThresholds, DEFAULT_AGE_THRESHOLDS, DEFAULT_METRICS_OPTIONS, MetricsOptions } from './options';
+import { computePointStats } from './scope';
+
+const WEEK_MS = 1000 * 60 * 60 * 24 * 7;
+
+export interface SprintInput {
+  board: BoardRef;
+  sprint: JiraSprint;
+  // Every sprint on the board, used to age spillover in real sprints
+  sprintHistory: JiraSprint[];
+  data: SprintIssues;
+  // Why the sprint could not be fetched; data is empty then
+  error?: string;
+}
+
+// Update helper function to return typed age group
+export function getAgeGroupLabel(sprintAge: number, thresholds: AgeThresholds = DEFAULT_AGE_THRESHOLDS): AgeGroup {
+  if (sprintAge <= thresholds.recent) return 'recent';
+  if (sprintAge <= thresholds.moderate) return 'moderate';
+  if (sprintAge <= thresholds.old) return 'old';
+  return 'critical';
+}
+
+function sprintLengthMs(sprint: JiraSprint): number {
+  return new Date(sprint.endDate).getTime() - new Date(sprint.startDate).getTime();
+}
+
+// Count the board's sprints that started between the issue being started and the current sprint (included),
+// with their actual lengths in weeks. Time before the board's first known sprint is counted in sprints
+// as long as that first one.
+export function sprintsCrossed(
+  startDate: string,
+  sprint: JiraSprint,
+  sprintHistory: JiraSprint[]
+): { sprintAge: number; sprintWeeks: number } {
+  const started = new Date(startDate).getTime();
+  const currentStart = new Date(sprint.startDate).getTime();
+  const scheduled = sprintHistory
+    .filter(candidate => candidate.startDate && candidate.endDate && candidate.id !== sprint.id)
+    .concat(sprint)
+    .sort((a, b) => new Date(a.startDate).getTime() - new Date(b.startDate).getTime());
+
+  const crossed = scheduled.filter(candidate => {
+    const candidateStart = new Date(candidate.startDate).getTime();
+    return candidateStart > started && candidateStart <= currentStart;
+  });
+  let sprintAge = crossed.length;
+  let weeksMs = crossed.reduce((sum, candidate) => sum + sprintLengthMs(candidate), 0);
+
+  const first = scheduled[0];
+  const firstStart = new Date(first.startDate).getTime();
+  if (started < firstStart && sprintLengthMs(first) > 0) {
+    // Sprints of the same length before the first one, that started after the issue did
+    const before = Math.ceil((firstStart - started) / sprintLengthMs(first)) - 1;
+    sprintAge += before;
+    weeksMs += before * sprintLengthMs(first);
+  }
+
+  return {
+    sprintAge: Math.max(sprintAge, 1),
+    sprintWeeks: Math.round((weeksMs / WEEK_MS) * 10) / 10
+  };
+}
+
+function issueDetails(issue: JiraIssue, people: PeopleDirectory, storyPointsField?: string): IssueDetails {
+  const points = storyPointsField ? issue.fields[storyPointsField] : undefined;
+  return {
+    key: issue.key,
+    summary: issue.fields.summary || '',
+    status: issue.fields.status.name,
+    assignee: assigneeId(issue, people),
+    estimateSeconds: issue.fields.timeoriginalestimate || null,
+    storyPoints: typeof points === 'number' ? points : null
+  };
+}
+
+// Issue key as listed in the stats, with an asterisk when credited through a fallback
+function creditedKey(issue: JiraIssue, attribution?: Attribution): string {
+  return attribution && attribution.direct ? issue.key : `${issue.key}*`;
+}
+
+// The drill-down entry behind a key in the stats; without an attribution the issue went to Unknown
+function issueCredit(role: CreditRole, issue: JiraIssue, person: string, attribution?: Attribution): IssueCredit {
+  const noTransition = role === 'spillover' ? null : 'No matching status change in the changelog, so nobody could be credited';
+  return {
+    key: issue.key,
+    role,
+    person,
+    transition: attribution
+      ? { from: attribution.from, to: attribution.to, date: attribution.date, author: attribution.person }
+      : null,
+    fallbackReason: attribution ? attribution.reason || null : noTransition
+  };
+}
+
+function recordSpillover(
+  spilloverStats: SpilloverStats,
+  person: string,
+  issue: JiraIssue,
+  startDate: string,
+  input: SprintInput,
+  thresholds: AgeThresholds
+): void {
+  const { sprint, sprintHistory } = input;
+  spilloverStats[person] = spilloverStats[person] || {
+    count: 0,
+    totalSprintWeeks: 0,
+    issues: [],
+    ageGroups: { recent: [], moderate: [], old: [], critical: [] }
+  };
+  spilloverStats[person].count++;
+
+  // Calculate sprint age and total sprint-weeks from the board's real sprints
+  const { sprintAge, sprintWeeks } = sprintsCrossed(startDate, sprint, sprintHistory);
+  spilloverStats[person].totalSprintWeeks = Math.round((spilloverStats[person].totalSprintWeeks + sprintWeeks) * 10) / 10;
+
+  // Add to appropriate age group
+  const ageGroup = getAgeGroupLabel(sprintAge, thresholds);
+  spilloverStats[person].ageGroups[ageGroup].push(`${issue.key} (${sprintAge} sprints)`);
+
+  spilloverStats[person].issues.push({
+    key: issue.key,
+    startDate,
+    originalSprint: sprint.name,
+    sprintAge,
+    ageGroup
+  });
+}
+
+// Compute every statistic for one sprint from its issues; does no I/O
+export function computeSprintSummary(
+  input: SprintInput,
+  workflow: Workflow,
+  options: MetricsOptions = DEFAULT_METRICS_OPTIONS
+): SprintSummary {
+  const { board, sprint, data } = input;
+  const { people } = options;
+  const { issues, total, uatTotal, noEstimateIssues } = data;
+  const timeLogged: { [key: string]: number } = {};
+  const completionStats: IssueCompletionStats = {};
+  const reviewerStats: ReviewerStats = {};
+  const shipperStats: ShipperStats = {};
+  const spilloverStats: SpilloverStats = {};
+  const credits: IssueCredit[] = [];
+  const issueFlows: IssueFlow[] = [];
+  const estimateIssues: EstimateIssue[] = [];
+
+  // Issues without an original estimate, keyed so the ones found by both the query and the loop count once
+  const missingEstimates = new Map(noEstimateIssues.map(entry => [entry.key, {
+    key: entry.key,
+    assignee: entry.assignee ? people.idOf(entry.assignee) : null
+  }]));
+
+  let completedIssues = 0;
+  const sprintStart = new Date(sprint.startDate);
+  const workingDays = sprintDays(sprint, options.calendar);
+  const fetchedAt = new Date(data.fetchedAt);
+
+  for (const issue of issues) {
+    const histories = issue.changelog && issue.changelog.histories
+      ? sortHistories(issue.changelog.histories)
+      : undefined;
+    const isDone = workflow.done.to.includes(issue.fields.status.name);
+
+    // Time in status, cycle and lead time, with open issues measured up to when they were fetched
+    issueFlows.push(computeIssueFlow(issue, histories || [], workflow, fetchedAt, people));
+
+    // Track issues without original estimates, and compare the estimate with the time logged otherwise
+    if (!issue.fields.timeoriginalestimate) {
+      missingEstimates.set(issue.key, { key: issue.key, assignee: assigneeId(issue, people) });
+    } else {
+      const estimate = computeEstimateIssue(issue, isDone, options.overrunRatio, people);
+      if (estimate) estimateIssues.push(estimate);
+    }
+
+    // Track spillover issues - those not completed in this sprint and started before it
+    if (!isDone && histories) {
+      const starter = findStarter(histories, workflow, people);
+
+      if (starter) {
+        if (new Date(starter.date) < sprintStart) {
+          recordSpillover(spilloverStats, starter.person, issue, starter.date, input, options.ageThresholds);
+          credits.push(issueCredit('spillover', issue, starter.person, starter));
+        }
+      } else if (histories.length > 0 && new Date(histories[0].created) < sprintStart) {
+        // No starter found, but the issue has history from before the sprint
+        recordSpillover(spilloverStats, UNKNOWN_PERSON, issue, histories[0].created, input, options.ageThresholds);
+        credits.push(issueCredit('spillover', issue, UNKNOWN_PERSON));
+      }
+    }
+
+    // Find shippers for issues that reached a ship status
+    if (histories) {
+      const shipper = findShipper(histories, workflow, people);
+
+      if (shipper) {
+        shipperStats[shipper.person] = shipperStats[shipper.person] || { shipped: 0, shippedIssues: [] };
+        shipperStats[shipper.person].shipped++;
+        shipperStats[shipper.person].shippedIssues.push(creditedKey(issue, shipper));
+        credits.push(issueCredit('shipped', issue, shipper.person, shipper));
+      } else if (workflow.ship.to.includes(issue.fields.status.name) || isDone) {
+        // Nobody found but the issue is shipped or done, so mark as Unknown
+        shipperStats[UNKNOWN_PERSON] = shipperStats[UNKNOWN_PERSON] || { shipped: 0, shippedIssues: [] };
+        shipperStats[UNKNOWN_PERSON].shipped++;
+        shipperStats[UNKNOWN_PERSON].shippedIssues.push(creditedKey(issue));
+        credits.push(issueCredit('shipped', issue, UNKNOWN_PERSON));
+      }
+    }
+
+    if (isDone) {
+      completedIssues++;
+
+      if (histories) {
+        // Credit the reviewer, or Unknown when nobody moved it out of review
+        const reviewer = findReviewer(histories, workflow, people);
+        const reviewerName = reviewer ? reviewer.person : UNKNOWN_PERSON;
+        reviewerStats[reviewerName] = reviewerStats[reviewerName] || { reviewed: 0, reviewedIssues: [] };
+        reviewerStats[reviewerName].reviewed++;
+        reviewerStats[reviewerName].reviewedIssues.push(creditedKey(issue, reviewer));
+        credits.push(issueCredit('reviewed', issue, reviewerName, reviewer));
+
+        // Credit whoever started it, or Unknown when it never left the backlog through a known status
+        const starter = findStarter(histories, workflow, people);
+        const starterName = starter ? starter.person : UNKNOWN_PERSON;
+        completionStats[starterName] = completionStats[starterName] || { started: 0, completed: 0, completedIssues: [] };
+        completionStats[starterName].started++;
+        completionStats[starterName].completed++;
+        completionStats[starterName].completedIssues.push(creditedKey(issue, starter));
+        credits.push(issueCredit('completed', issue, starterName, starter));
+      }
+    }
+
+    // Sum up time logged per author for worklogs that fall on the sprint's working days, in the team time zone
+    if (workingDays && issue.fields.worklog && issue.fields.worklog.worklogs) {
+      const sprintWorklogs = issue.fields.worklog.worklogs.filter((worklog: JiraWorklog) =>
+        isWithinSprintDays(new Date(worklog.started), workingDays, options.calendar));
+
+      // Time logged by automation accounts is nobody's work
+      for (const worklog of sprintWorklogs.filter(entry => !people.isExcluded(entry.author))) {
+        const person = people.idOf(worklog.author);
+        timeLogged[person] = (timeLogged[person] || 0) + worklog.timeSpentSeconds;
+      }
+    }
+  }
+
+  // Issues in the sprint plus the ones taken out of it while it ran
+  const issueKeys = new Set(issues.map(issue => issue.key));
+  const trackedIssues = [...issues, ...data.removedIssues.filter(issue => !issueKeys.has(issue.key))];
+
+  // Issues rolled over between sprints
+  const carryOver = trackedIssues
+    .map(issue => computeCarryOver(
+      issue,
+      issue.changelog?.histories || [],
+      workflow.done.to.includes(issue.fields.status.name),
+      sprint,
+      input.sprintHistory,
+      people
+    ))
+    .filter((entry): entry is CarryOverIssue => entry !== undefined);
+
+  const summary = {
+    id: sprint.id,
+    name: sprint.name,
+    boardId: board.id,
+    boardName: board.name,
+    projectKey: board.projectKey,
+    startDate: sprint.startDate,
+    endDate: sprint.endDate,
+    totalIssues: total,
+    completedIssues,
+    uatReadyIssues: uatTotal,
+    timeLogged,
+    completionStats,
+    reviewerStats,
+    shipperStats,
+    spilloverStats,
+    flowStats: computeFlowStats(issueFlows),
+    pointStats: data.storyPointsField
+      ? computePointStats(
+        sprint,
+        issues.map(issue => ({ issue, histories: issue.changelog?.histories || [] })),
+        data.removedIssues.map(issue => ({ issue, histories: issue.changelog?.histories || [] })),
+        { id: data.storyPointsField, name: options.storyPointsFieldName },
+        workflow,
+        fetchedAt
+      )
+      : null,
+    estimateStats: computeEstimateStats(estimateIssues, options.overrunRatio),
+    carryOver,
+    issueDetails: trackedIssues.map(issue => issueDetails(issue, people, data.storyPointsField)),
+    credits,
+    missingEstimates: Array.from(missingEstimates.values()),
+    error: input.error
+  };
+
+  return {
+    ...summary,
+    people: Object.fromEntries(referencedPeople(summary).map(id => [id, people.describe(id)]))
+  };
+}
+
+export function computeSprintSummaries(
+  inputs: SprintInput[],
+  workflow: Workflow,
+  options: MetricsOptions = DEFAULT_METRICS_OPTIONS
+): SprintSummary[] {
+  return inputs.map(input => computeSprintSummary(input, workflow, options));
+}
@@ -0,0 +1,68 @@
+import { DEFAULT_TEAM_CALENDAR, TeamCalendar, loadCalendarConfig } from '../calendar';
+import { PeopleDirectory, loadPeopleConfig } from '../people';
+
+// Highest spillover age, in sprints, that still falls in each age group; anything older is critical
+export interface AgeThresholds {
+  recent: number;
+  moderate: number;
+  old: number;
+}
+
+// Tunable thresholds for the statistics, read from the environment
+export interface MetricsOptions {
+  // Issues whose logged time exceeds their original estimate by this factor are flagged as overruns
+  overrunRatio: number;
+  ageThresholds: AgeThresholds;
+  calendar: TeamCalendar;
+  // Who is who across Jira accounts, and which accounts are automation
+  people: PeopleDirectory;
+  // Display name of JIRA_STORY_POINTS_FIELD, looked up in Jira since Server/DC changelogs only name it
+  storyPointsFieldName?: string;
+}
+
+export const DEFAULT_AGE_THRESHOLDS: AgeThresholds = {
+  recent: 2,
+  moderate: 4,
+  old: 6
+};
+
+export const DEFAULT_METRICS_OPTIONS: MetricsOptions = {
+  overrunRatio: 1.5,
+  ageThresholds: DEFAULT_AGE_THRESHOLDS,
+  calendar: DEFAULT_TEAM_CALENDAR,
+  people: new PeopleDirectory()
+};
+
+function parsePositiveNumber(name: string, value: string): number {
+  const parsed = Number(value);
+  if (!isFinite(parsed) || parsed <= 0) {
+    throw new Error(`${name} must be a positive number, got "${value}"`);
+  }
+  return parsed;
+}
+
+// "2,4,6": the last sprint age counted as recent, moderate and old
+function parseAgeThresholds(name: string, value: string): AgeThresholds {
+  const parts = value.split(',').map(part => Number(part.trim()));
+  const valid = parts.length === 3 &&
+    parts.every(part => Number.isInteger(part) && part > 0) &&
+    parts[0] < parts[1] && parts[1] < parts[2];
+  if (!valid) {
+    throw new Error(`${name} must be three increasing sprint counts like "2,4,6", got "${value}"`);
+  }
+  return { recent: parts[0], moderate: parts[1], old: parts[2] };
+}
+
+export function loadMetricsOptions(): MetricsOptions {
+  const env = process.env;
+  return {
+    overrunRatio: env.JIRA_OVERRUN_RATIO
+      ? parsePositiveNumber('JIRA_OVERRUN_RATIO', env.JIRA_OVERRUN_RATIO)
+      : DEFAULT_METRICS_OPTIONS.overrunRatio,
+    ageThresholds: env.JIRA_SPILLOVER_AGE_THRESHOLDS
+      ? parseAgeThresholds('JIRA_SPILLOVER_AGE_THRESHOLDS', env.JIRA_SPILLOVER_AGE_THRESHOLDS)
+      : DEFAULT_METRICS_OPTIONS.ageThresholds,
+    calendar: loadCalendarConfig(),
+    people: new PeopleDirectory(loadPeopleConfig())
+  };
+}
@@ -0,0 +1,55 @@
+import { SprintSummary } from '../types';
+
+export interface RollupRow {
+  // "board", "project" or the overall "all" row
+  level: 'board' | 'project' | 'all';
+  label: string;
+  projectKey?: string;
+  boardId?: number;
+  sprints: number;
+  totalIssues: number;
+  completedIssues: number;
+  uatReadyIssues: number;
+  secondsLogged: number;
+  spilloverIssues: number;
+  people: number;
+}
+
+function rollup(level: RollupRow['level'], label: string, summaries: SprintSummary[]): RollupRow {
+  const people = new Set<string>();
+  summaries.forEach(summary => Object.keys(summary.timeLogged).forEach(person => people.add(person)));
+
+  return {
+    level,
+    label,
+    sprints: summaries.length,
+    totalIssues: summaries.reduce((sum, s) => sum + s.totalIssues, 0),
+    completedIssues: summaries.reduce((sum, s) => sum + s.completedIssues, 0),
+    uatReadyIssues: summaries.reduce((sum, s) => sum + s.uatReadyIssues, 0),
+    secondsLogged: summaries.reduce((sum, s) =>
+      sum + Object.values(s.timeLogged).reduce((total, seconds) => total + seconds, 0), 0),
+    spilloverIssues: summaries.reduce((sum, s) =>
+      sum + Object.values(s.spilloverStats).reduce((total, stats) => total + stats.count, 0), 0),
+    people: people.size
+  };
+}
+
+// Totals per board, per project and across everything, in project then board order
+export function computeRollup(sprintSummaries: SprintSummary[]): RollupRow[] {
+  const rows: RollupRow[] = [];
+  const projectKeys = Array.from(new Set(sprintSummaries.map(summary => summary.projectKey))).sort();
+
+  for (const projectKey of projectKeys) {
+    const projectSummaries = sprintSummaries.filter(summary => summary.projectKey === projectKey);
+    const boardIds = Array.from(new Set(projectSummaries.map(summary => summary.boardId)));
+
+    for (const boardId of boardIds) {
+      const boardSummaries = projectSummaries.filter(summary => summary.boardId === boardId);
+      rows.push({ ...rollup('board', boardSummaries[0].boardName, boardSummaries), projectKey, boardId });
+    }
+    rows.push({ ...rollup('project', projectKey, projectSummaries), projectKey });
+  }
+
+  rows.push(rollup('all', 'ALL TEAMS', sprintSummaries));
+  return rows;
+}
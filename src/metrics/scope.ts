@@ -0,0 +1,183 @@
+import { JiraChangelog, JiraIssue, JiraSprint } from '../jira/types';
+import { BurnDay, PointStats } from '../types';
+import { Workflow } from '../workflow';
+import { findCompletion, sortHistories } from './attribution';
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+export interface IssueHistory {
+  issue: JiraIssue;
+  histories: JiraChangelog[];
+}
+
+// A sprint as listed in the Sprint field history; older entries only have names
+export interface SprintRef {
+  id?: string;
+  name: string;
+}
+
+export interface SprintFieldChange {
+  created: Date;
+  from: SprintRef[];
+  to: SprintRef[];
+}
+
+export interface SprintMembership {
+  atStart: boolean;
+  addedAt?: string;
+  removedAt?: string;
+  inSprintAt: (date: Date) => boolean;
+}
+
+function splitList(value?: string | null): string[] {
+  return value ? value.split(',').map(entry => entry.trim()).filter(Boolean) : [];
+}
+
+// Pair the raw sprint ids with their names, which Jira lists in the same order
+function sprintRefs(ids?: string | null, names?: string | null): SprintRef[] {
+  const idList = splitList(ids);
+  const nameList = splitList(names);
+  if (idList.length === nameList.length) {
+    return idList.map((id, index) => ({ id, name: nameList[index] }));
+  }
+  return nameList.length ? nameList.map(name => ({ name })) : idList.map(id => ({ id, name: id }));
+}
+
+// Sprint field changes, oldest first
+export function sprintFieldChanges(histories: JiraChangelog[]): SprintFieldChange[] {
+  const changes: SprintFieldChange[] = [];
+  for (const history of sortHistories(histories)) {
+    for (const item of history.items) {
+      if (item.field === 'Sprint') {
+        changes.push({
+          created: new Date(history.created),
+          from: sprintRefs(item.from, item.fromString),
+          to: sprintRefs(item.to, item.toString)
+        });
+      }
+    }
+  }
+  return changes;
+}
+
+// Replay the Sprint field changes to tell when the issue was part of the sprint
+export function sprintMembership(issue: JiraIssue, histories: JiraChangelog[], sprint: JiraSprint, until: Date): SprintMembership {
+  const changes = sprintFieldChanges(histories);
+  const created = issue.fields.created ? new Date(issue.fields.created) : undefined;
+  const contains = (sprints: SprintRef[]) => sprints.some(ref => ref.id === String(sprint.id) || ref.name === sprint.name);
+
+  const inSprintAt = (date: Date): boolean => {
+    if (created && created > date) return false;
+    const before = changes.filter(change => change.created <= date);
+    if (before.length) return contains(before[before.length - 1].to);
+    const after = changes.find(change => change.created > date);
+    // Never moved between sprints, so it has been in this one since it was created
+    return after ? contains(after.from) : true;
+  };
+
+  const start = new Date(sprint.startDate);
+  const windowEnd = new Date(Math.min(new Date(sprint.endDate).getTime(), until.getTime()));
+  const atStart = inSprintAt(start);
+  const during = changes.filter(change => change.created > start && change.created <= windowEnd);
+
+  let addedAt: string | undefined;
+  if (!atStart) {
+    const added = during.find(change => !contains(change.from) && contains(change.to));
+    if (added) {
+      addedAt = added.created.toISOString();
+    } else if (created && created > start && created <= windowEnd && inSprintAt(created)) {
+      // Created straight into the running sprint
+      addedAt = created.toISOString();
+    }
+  }
+
+  let removedAt: string | undefined;
+  if ((atStart || addedAt) && !inSprintAt(windowEnd)) {
+    const removed = during.filter(change => contains(change.from) && !contains(change.to)).pop();
+    removedAt = removed ? removed.created.toISOString() : undefined;
+  }
+
+  return { atStart, addedAt, removedAt, inSprintAt };
+}
+
+// The story point field; Cloud changelogs name fields by id, Server/DC ones only by display name
+export interface StoryPointsField {
+  id: string;
+  name?: string;
+}
+
+// Story points of the issue at a given moment, replaying changes of the configured field
+export function storyPointsAt(issue: JiraIssue, histories: JiraChangelog[], field: StoryPointsField, date?: Date): number {
+  const current = Number(issue.fields[field.id]) || 0;
+  if (!date) return current;
+
+  const changes = sortHistories(histories).flatMap(history =>
+    history.items
+      .filter(item => item.fieldId ? item.fieldId === field.id : !!field.name && item.field === field.name)
+      .map(item => ({ created: new Date(history.created), from: item.fromString, to: item.toString }))
+  );
+
+  const before = changes.filter(change => change.created <= date);
+  if (before.length) return Number(before[before.length - 1].to) || 0;
+  const after = changes.find(change => change.created > date);
+  return after ? Number(after.from) || 0 : current;
+}
+
+function sumPoints(points: number[]): number {
+  return Math.round(points.reduce((sum, value) => sum + value, 0) * 10) / 10;
+}
+
+// Committed vs. delivered points and a daily burn series, with scope changes taken from the changelog.
+// Issues removed mid-sprint are no longer returned by "sprint = X", so they are passed in separately.
+export function computePointStats(
+  sprint: JiraSprint,
+  issues: IssueHistory[],
+  removedIssues: IssueHistory[],
+  storyPointsField: StoryPointsField,
+  workflow: Workflow,
+  until: Date
+): PointStats | null {
+  if (!sprint.startDate || !sprint.endDate) return null;
+
+  const start = new Date(sprint.startDate);
+  const windowEnd = new Date(Math.max(Math.min(new Date(sprint.endDate).getTime(), until.getTime()), start.getTime()));
+  const keys = new Set(issues.map(({ issue }) => issue.key));
+  const tracked = [...issues, ...removedIssues.filter(({ issue }) => !keys.has(issue.key))].map(({ issue, histories }) => {
+    const completion = findCompletion(histories, workflow, issue.fields.status.name);
+    return {
+      issue,
+      membership: sprintMembership(issue, histories, sprint, until),
+      doneAt: completion ? new Date(completion.date) : undefined,
+      points: (date?: Date) => storyPointsAt(issue, histories, storyPointsField, date)
+    };
+  });
+
+  const committed = tracked.filter(entry => entry.membership.atStart);
+  const added = tracked.filter(entry => entry.membership.addedAt);
+  const removed = tracked.filter(entry => entry.membership.removedAt);
+  const completed = tracked.filter(entry =>
+    entry.doneAt && entry.doneAt <= windowEnd && entry.membership.inSprintAt(windowEnd));
+
+  const daily: BurnDay[] = [];
+  for (let time = start.getTime(); time <= windowEnd.getTime() + DAY_MS - 1; time += DAY_MS) {
+    const date = new Date(Math.min(time, windowEnd.getTime()));
+    const inScope = tracked.filter(entry => entry.membership.inSprintAt(date));
+    const scopePoints = sumPoints(inScope.map(entry => entry.points(date)));
+    const completedPoints = sumPoints(inScope
+      .filter(entry => entry.doneAt && entry.doneAt <= date)
+      .map(entry => entry.points(date)));
+    daily.push({ date: date.toISOString(), scopePoints, completedPoints, remainingPoints: sumPoints([scopePoints, -completedPoints]) });
+  }
+
+  return {
+    committedIssues: committed.length,
+    committedPoints: sumPoints(committed.map(entry => entry.points(start))),
+    addedIssues: added.map(entry => entry.issue.key),
+    addedPoints: sumPoints(added.map(entry => entry.points())),
+    removedIssues: removed.map(entry => entry.issue.key),
+    removedPoints: sumPoints(removed.map(entry => entry.points())),
+    completedPoints: sumPoints(completed.map(entry => entry.points())),
+    committedCompletedPoints: sumPoints(completed.filter(entry => entry.membership.atStart).map(entry => entry.points())),
+    daily
+  };
+}
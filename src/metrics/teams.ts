@@ -0,0 +1,76 @@
+import { SprintSummary } from '../types';
+import { computeEstimateStats } from './estimates';
+import { computeFlowStats } from './flow';
+
+// How the person tables and leaderboards are keyed
+export type GroupBy = 'person' | 'team';
+export const GROUP_BY: GroupBy[] = ['person', 'team'];
+
+// Bucket for everyone without a team in the people config, Unknown and Unassigned included
+export const NO_TEAM = 'No team';
+
+export function teamOf(summary: SprintSummary, id: string): string {
+  const person = summary.people[id];
+  return (person && person.team) || NO_TEAM;
+}
+
+// Re-key per-person stats, merging the entries that end up under the same key
+function mergeKeys<T>(stats: { [id: string]: T }, key: (id: string) => string, merge: (a: T, b: T) => T): { [key: string]: T } {
+  const result: { [key: string]: T } = {};
+  Object.entries(stats).forEach(([id, value]) => {
+    const target = key(id);
+    result[target] = result[target] === undefined ? value : merge(result[target], value);
+  });
+  return result;
+}
+
+// One sprint with every person-level figure added up per team. Cycle time, lead time and estimate
+// ratios are recomputed from the team's issues since medians do not add up.
+export function groupSummaryByTeam(summary: SprintSummary): SprintSummary {
+  const team = (id: string) => teamOf(summary, id);
+  const assignee = <T extends { assignee: string | null }>(issue: T): T => ({ ...issue, assignee: team(issue.assignee || '') });
+
+  const teams = Array.from(new Set(Object.keys(summary.people).map(team)));
+
+  return {
+    ...summary,
+    timeLogged: mergeKeys(summary.timeLogged, team, (a, b) => a + b),
+    completionStats: mergeKeys(summary.completionStats, team, (a, b) => ({
+      started: a.started + b.started,
+      completed: a.completed + b.completed,
+      completedIssues: a.completedIssues.concat(b.completedIssues)
+    })),
+    reviewerStats: mergeKeys(summary.reviewerStats, team, (a, b) => ({
+      reviewed: a.reviewed + b.reviewed,
+      reviewedIssues: a.reviewedIssues.concat(b.reviewedIssues)
+    })),
+    shipperStats: mergeKeys(summary.shipperStats, team, (a, b) => ({
+      shipped: a.shipped + b.shipped,
+      shippedIssues: a.shippedIssues.concat(b.shippedIssues)
+    })),
+    spilloverStats: mergeKeys(summary.spilloverStats, team, (a, b) => ({
+      count: a.count + b.count,
+      totalSprintWeeks: a.totalSprintWeeks + b.totalSprintWeeks,
+      issues: a.issues.concat(b.issues),
+      ageGroups: {
+        recent: a.ageGroups.recent.concat(b.ageGroups.recent),
+        moderate: a.ageGroups.moderate.concat(b.ageGroups.moderate),
+        old: a.ageGroups.old.concat(b.ageGroups.old),
+        critical: a.ageGroups.critical.concat(b.ageGroups.critical)
+      }
+    })),
+    flowStats: computeFlowStats(summary.flowStats.issues.map(assignee)),
+    estimateStats: computeEstimateStats(summary.estimateStats.issues.map(assignee), summary.estimateStats.overrunRatio),
+    carryOver: summary.carryOver.map(assignee),
+    missingEstimates: summary.missingEstimates.map(assignee),
+    // Issue cards keep the person the issue is assigned to, and credits the person who moved it
+    issueDetails: summary.issueDetails,
+    credits: summary.credits.map(credit => ({ ...credit, person: team(credit.person) })),
+    people: Object.fromEntries(teams.map(name => [name, { name, team: name }]))
+  };
+}
+
+// The summaries keyed by team instead of person
+export function groupByTeam(sprintSummaries: SprintSummary[]): SprintSummary[] {
+  return sprintSummaries.map(groupSummaryByTeam);
+}
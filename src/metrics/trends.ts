@@ -0,0 +1,106 @@
+import { Snapshot } from '../snapshots';
+import { SprintSummary } from '../types';
+
+export const DEFAULT_TREND_SPRINTS = 10;
+export const DEFAULT_TREND_WINDOW = 3;
+
+export interface TrendMetrics {
+  completionPct: number;
+  hoursLogged: number;
+  reviewed: number;
+  spillover: number;
+}
+
+const TREND_METRICS: Array<keyof TrendMetrics> = ['completionPct', 'hoursLogged', 'reviewed', 'spillover'];
+
+export interface TrendPoint extends TrendMetrics {
+  id: number;
+  name: string;
+  boardId: number;
+  boardName: string;
+  projectKey: string;
+  startDate: string;
+  endDate: string;
+  // Average over this sprint and the ones before it on the same board
+  rolling: TrendMetrics;
+  // Snapshot the figures come from, and how many snapshots include the sprint
+  takenAt: string;
+  snapshots: number;
+  // Metrics that changed between the first snapshot taken after the sprint ended and the latest one
+  revisedAfterClose: Array<keyof TrendMetrics>;
+}
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+export function trendMetrics(summary: SprintSummary): TrendMetrics {
+  const sum = (values: number[]) => values.reduce((total, value) => total + value, 0);
+  return {
+    completionPct: summary.totalIssues ? round((summary.completedIssues / summary.totalIssues) * 100) : 0,
+    hoursLogged: round(sum(Object.values(summary.timeLogged)) / 3600),
+    reviewed: sum(Object.values(summary.reviewerStats).map(stats => stats.reviewed)),
+    spillover: sum(Object.values(summary.spilloverStats).map(stats => stats.count))
+  };
+}
+
+// Latest figures of every sprint found in the snapshots, with a rolling average per board.
+// Only the last `last` sprints of each board are returned, ordered by board then start date.
+export function computeTrends(
+  snapshots: Snapshot[],
+  last: number = DEFAULT_TREND_SPRINTS,
+  window: number = DEFAULT_TREND_WINDOW
+): TrendPoint[] {
+  // Sprint key -> every version of its summary, oldest snapshot first
+  const versions = new Map<string, Array<{ takenAt: string; summary: SprintSummary }>>();
+  for (const snapshot of snapshots) {
+    // A sprint that failed to fetch has empty figures, not real ones
+    for (const summary of snapshot.sprints.filter(candidate => !candidate.error)) {
+      const key = `${summary.boardId}:${summary.id}`;
+      versions.set(key, [...(versions.get(key) || []), { takenAt: snapshot.takenAt, summary }]);
+    }
+  }
+
+  const points = Array.from(versions.values()).map(entries => {
+    const latest = entries[entries.length - 1];
+    const { summary } = latest;
+    const metrics = trendMetrics(summary);
+    const firstAfterClose = entries.find(entry => summary.endDate && entry.takenAt > summary.endDate);
+    const closedMetrics = firstAfterClose ? trendMetrics(firstAfterClose.summary) : metrics;
+
+    return {
+      id: summary.id,
+      name: summary.name,
+      boardId: summary.boardId,
+      boardName: summary.boardName,
+      projectKey: summary.projectKey,
+      startDate: summary.startDate,
+      endDate: summary.endDate,
+      ...metrics,
+      takenAt: latest.takenAt,
+      snapshots: entries.length,
+      revisedAfterClose: TREND_METRICS.filter(metric => closedMetrics[metric] !== metrics[metric])
+    };
+  });
+
+  const trends: TrendPoint[] = [];
+  const boardIds = Array.from(new Set(points.map(point => point.boardId)));
+  for (const boardId of boardIds) {
+    const boardPoints = points
+      .filter(point => point.boardId === boardId)
+      .sort((a, b) => new Date(a.startDate).getTime() - new Date(b.startDate).getTime());
+
+    boardPoints.forEach((point, index) => {
+      const previous = boardPoints.slice(Math.max(0, index - window + 1), index + 1);
+      const rolling = {} as TrendMetrics;
+      TREND_METRICS.forEach(metric => {
+        rolling[metric] = round(previous.reduce((sum, entry) => sum + entry[metric], 0) / previous.length);
+      });
+      if (index >= boardPoints.length - last) {
+        trends.push({ ...point, rolling });
+      }
+    });
+  }
+
+  return trends;
+}
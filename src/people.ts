@@ -0,0 +1,213 @@
+import * as path from 'path';
+import { readJsonConfig } from './config';
+import { JiraIssue, JiraUser } from './jira/types';
+import { SprintSummary } from './types';
+
+// Bucket for issues nobody can be credited with, also used for work done by excluded accounts
+export const UNKNOWN_PERSON = 'Unknown';
+
+// One person as configured in config/people.json
+export interface PersonConfig {
+  // Jira Cloud accountId, or the user key on Server/Data Center; stats are keyed on it
+  accountId: string;
+  // Shown instead of the name Jira sends
+  name?: string;
+  // Other account ids or display names of the same person, e.g. an old account or a renamed one
+  aliases?: string[];
+  team?: string;
+}
+
+export interface PeopleConfig {
+  people: PersonConfig[];
+  // Account ids or display names of bots and automation users, never credited with anything
+  exclude: string[];
+}
+
+// How a person id is shown in the reports
+export interface PersonInfo {
+  name: string;
+  team: string | null;
+}
+
+export const DEFAULT_PEOPLE_CONFIG_PATH = path.join('config', 'people.json');
+
+// Check the shape of a parsed people config, throwing with every problem found
+export function validatePeopleConfig(value: unknown): PeopleConfig {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new Error('Invalid people config: expected an object with "people" and/or "exclude"');
+  }
+
+  const errors: string[] = [];
+  const { people, exclude, ...rest } = value as { [name: string]: unknown };
+  Object.keys(rest).forEach(name => errors.push(`unknown key "${name}"`));
+
+  const isStringList = (list: unknown) => Array.isArray(list) && list.every(entry => typeof entry === 'string' && entry.trim());
+  const seen = new Map<string, string>();
+
+  if (people !== undefined && !Array.isArray(people)) {
+    errors.push('people must be an array');
+  }
+  (Array.isArray(people) ? people : []).forEach((person, index) => {
+    const label = `people[${index}]`;
+    if (typeof person !== 'object' || person === null || Array.isArray(person)) {
+      errors.push(`${label} must be an object`);
+      return;
+    }
+    const { accountId, name, aliases, team, ...extra } = person as { [name: string]: unknown };
+    Object.keys(extra).forEach(key => errors.push(`${label}: unknown key "${key}"`));
+    if (typeof accountId !== 'string' || !accountId.trim()) {
+      errors.push(`${label}: accountId is required`);
+    }
+    if (name !== undefined && (typeof name !== 'string' || !name.trim())) errors.push(`${label}: name must be a non-empty string`);
+    if (team !== undefined && (typeof team !== 'string' || !team.trim())) errors.push(`${label}: team must be a non-empty string`);
+    if (aliases !== undefined && !isStringList(aliases)) errors.push(`${label}: aliases must be an array of account ids or names`);
+
+    // An id or alias can only point to one person
+    [accountId, ...(isStringList(aliases) ? aliases as string[] : [])]
+      .filter((id): id is string => typeof id === 'string')
+      .forEach(id => {
+        const owner = seen.get(id);
+        if (owner !== undefined && owner !== accountId) errors.push(`${label}: "${id}" is already used by ${owner}`);
+        seen.set(id, String(accountId));
+      });
+  });
+
+  if (exclude !== undefined && !isStringList(exclude)) {
+    errors.push('exclude must be an array of account ids or names');
+  }
+
+  if (errors.length) {
+    throw new Error(`Invalid people config:\n  - ${errors.join('\n  - ')}`);
+  }
+
+  return {
+    people: (people as PersonConfig[] | undefined) || [],
+    exclude: (exclude as string[] | undefined) || []
+  };
+}
+
+export function loadPeopleConfig(configPath?: string): PeopleConfig {
+  const parsed = readJsonConfig('People', DEFAULT_PEOPLE_CONFIG_PATH, 'JIRA_PEOPLE_CONFIG', configPath);
+  return parsed === undefined ? { people: [], exclude: [] } : validatePeopleConfig(parsed);
+}
+
+// Every way a Jira user can be referred to, most specific first
+function handles(user: JiraUser): string[] {
+  return [user.accountId, user.key, user.name, user.displayName].filter((handle): handle is string => !!handle);
+}
+
+// Resolves Jira users to stable person ids, merging aliases and remembering the name Jira last sent for each
+export class PeopleDirectory {
+  private readonly byHandle = new Map<string, PersonConfig>();
+  private readonly excluded: Set<string>;
+  private readonly jiraNames = new Map<string, string>();
+
+  constructor(config: PeopleConfig = { people: [], exclude: [] }) {
+    for (const person of config.people) {
+      [person.accountId, ...(person.aliases || [])].forEach(handle => this.byHandle.set(handle, person));
+    }
+    this.excluded = new Set(config.exclude);
+  }
+
+  isExcluded(user: JiraUser): boolean {
+    return handles(user).some(handle => this.excluded.has(handle));
+  }
+
+  // The configured person the user is an alias of, else the user's own account id
+  idOf(user: JiraUser): string {
+    const userHandles = handles(user);
+    const configured = userHandles.map(handle => this.byHandle.get(handle)).find(person => person !== undefined);
+    const id = configured ? configured.accountId : userHandles[0] || UNKNOWN_PERSON;
+    if (user.displayName) this.jiraNames.set(id, user.displayName);
+    return id;
+  }
+
+  // Who gets credit for a change: nobody known for anonymous or excluded authors
+  credit(user: JiraUser | undefined | null): string {
+    return !user || this.isExcluded(user) ? UNKNOWN_PERSON : this.idOf(user);
+  }
+
+  describe(id: string): PersonInfo {
+    const configured = this.byHandle.get(id);
+    return {
+      name: (configured && configured.name) || this.jiraNames.get(id) || id,
+      team: (configured && configured.team) || null
+    };
+  }
+}
+
+export function assigneeId(issue: JiraIssue, people: PeopleDirectory): string | null {
+  return issue.fields.assignee ? people.idOf(issue.fields.assignee) : null;
+}
+
+// Person ids referenced anywhere in a summary
+export function referencedPeople(summary: Omit<SprintSummary, 'people'>): string[] {
+  const ids = new Set<string>();
+  [summary.timeLogged, summary.completionStats, summary.reviewerStats, summary.shipperStats, summary.spilloverStats,
+    summary.flowStats.assignees, summary.estimateStats.assignees]
+    .forEach(stats => Object.keys(stats).forEach(id => ids.add(id)));
+  [summary.flowStats.issues, summary.estimateStats.issues, summary.carryOver, summary.issueDetails, summary.missingEstimates]
+    .forEach(issues => issues.forEach((issue: { assignee: string | null }) => { if (issue.assignee) ids.add(issue.assignee); }));
+  summary.credits.forEach(credit => {
+    ids.add(credit.person);
+    if (credit.transition) ids.add(credit.transition.author);
+  });
+  return Array.from(ids);
+}
+
+// Display label of every person id across the summaries; two people sharing a name get their id appended
+export function personLabels(sprintSummaries: SprintSummary[]): { [id: string]: string } {
+  const names: { [id: string]: string } = {};
+  sprintSummaries.forEach(summary => Object.entries(summary.people || {}).forEach(([id, person]) => { names[id] = person.name; }));
+
+  const counts = new Map<string, number>();
+  Object.values(names).forEach(name => counts.set(name, (counts.get(name) || 0) + 1));
+  const labels: { [id: string]: string } = {};
+  Object.entries(names).forEach(([id, name]) => { labels[id] = (counts.get(name) || 0) > 1 ? `${name} (${id})` : name; });
+  return labels;
+}
+
+function relabelKeys<T>(stats: { [id: string]: T }, label: (id: string) => string): { [name: string]: T } {
+  const result: { [name: string]: T } = {};
+  Object.entries(stats).forEach(([id, value]) => { result[label(id)] = value; });
+  return result;
+}
+
+// The summary keyed by display label instead of person id
+export function labelSummary(summary: SprintSummary, labels: { [id: string]: string }): SprintSummary {
+  const label = (id: string) => labels[id] || id;
+  const assignee = <T extends { assignee: string | null }>(issue: T): T => ({ ...issue, assignee: issue.assignee && label(issue.assignee) });
+
+  return {
+    ...summary,
+    timeLogged: relabelKeys(summary.timeLogged, label),
+    completionStats: relabelKeys(summary.completionStats, label),
+    reviewerStats: relabelKeys(summary.reviewerStats, label),
+    shipperStats: relabelKeys(summary.shipperStats, label),
+    spilloverStats: relabelKeys(summary.spilloverStats, label),
+    flowStats: {
+      ...summary.flowStats,
+      assignees: relabelKeys(summary.flowStats.assignees, label),
+      issues: summary.flowStats.issues.map(assignee)
+    },
+    estimateStats: {
+      ...summary.estimateStats,
+      assignees: relabelKeys(summary.estimateStats.assignees, label),
+      issues: summary.estimateStats.issues.map(assignee)
+    },
+    carryOver: summary.carryOver.map(assignee),
+    issueDetails: summary.issueDetails.map(assignee),
+    missingEstimates: summary.missingEstimates.map(assignee),
+    credits: summary.credits.map(credit => ({
+      ...credit,
+      person: label(credit.person),
+      transition: credit.transition && { ...credit.transition, author: label(credit.transition.author) }
+    }))
+  };
+}
+
+// The summaries keyed by display label, for the console tables and exports
+export function labelPeople(sprintSummaries: SprintSummary[]): SprintSummary[] {
+  const labels = personLabels(sprintSummaries);
+  return sprintSummaries.map(summary => labelSummary(summary, labels));
+}
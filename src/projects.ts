@@ -0,0 +1,105 @@
+import * as path from 'path';
+import { readJsonConfig } from './config';
+import { JiraBoard } from './jira/types';
+
+// A project to report on, optionally limited to some of its boards (by id or exact name)
+export interface ProjectConfig {
+  key: string;
+  boards?: Array<number | string>;
+}
+
+export const DEFAULT_PROJECTS_CONFIG_PATH = path.join('config', 'projects.json');
+
+// Check the shape of a parsed projects config, throwing with every problem found
+export function validateProjectsConfig(value: unknown): ProjectConfig[] {
+  if (!Array.isArray(value)) {
+    throw new Error('Invalid projects config: expected an array of { "key": "...", "boards": [...] }');
+  }
+
+  const errors: string[] = [];
+  const keys = new Set<string>();
+
+  value.forEach((entry, index) => {
+    if (typeof entry !== 'object' || entry === null || Array.isArray(entry)) {
+      errors.push(`[${index}] must be an object`);
+      return;
+    }
+
+    const { key, boards, ...rest } = entry as { [name: string]: unknown };
+    Object.keys(rest).forEach(name => errors.push(`[${index}] has unknown key "${name}"`));
+
+    if (typeof key !== 'string' || !key.trim()) {
+      errors.push(`[${index}].key must be a project key`);
+    } else if (keys.has(key)) {
+      errors.push(`[${index}]: project ${key} is listed twice`);
+    } else {
+      keys.add(key);
+    }
+
+    if (boards !== undefined &&
+      (!Array.isArray(boards) || !boards.length ||
+        boards.some(board => typeof board !== 'number' && (typeof board !== 'string' || !board.trim())))) {
+      errors.push(`[${index}].boards must be a non-empty array of board ids or names`);
+    }
+  });
+
+  if (errors.length) {
+    throw new Error(`Invalid projects config:\n  - ${errors.join('\n  - ')}`);
+  }
+
+  return value as ProjectConfig[];
+}
+
+// Projects come from config/projects.json, else from the comma separated JIRA_PROJECT_KEY.
+// --project narrows (or extends) that list and --board limits every project to the given boards.
+export function loadProjectsConfig(flags: { projects: string[]; boards: string[] }, configPath?: string): ProjectConfig[] {
+  const parsed = readJsonConfig('Projects', DEFAULT_PROJECTS_CONFIG_PATH, 'JIRA_PROJECTS_CONFIG', configPath);
+  let projects: ProjectConfig[] = parsed !== undefined
+    ? validateProjectsConfig(parsed)
+    : (process.env.JIRA_PROJECT_KEY || '')
+      .split(',')
+      .map(key => key.trim())
+      .filter(Boolean)
+      .map(key => ({ key }));
+
+  if (flags.projects.length) {
+    projects = flags.projects.map(key => projects.find(project => project.key === key) || { key });
+  }
+
+  if (flags.boards.length) {
+    projects = projects.map(project => ({ ...project, boards: flags.boards }));
+  }
+
+  if (!projects.length) {
+    throw new Error('No project configured: set JIRA_PROJECT_KEY, add config/projects.json or pass --project');
+  }
+
+  return projects;
+}
+
+function matchesBoard(board: JiraBoard, wanted: number | string): boolean {
+  return String(board.id) === String(wanted) || board.name === wanted;
+}
+
+// Pick the boards of one project to report on. Without an explicit list that is every scrum board,
+// since only scrum boards have sprints; with --board, projects without a matching board are skipped.
+export function selectProjectBoards(project: ProjectConfig, boards: JiraBoard[], fromFlags: boolean): JiraBoard[] {
+  const projectBoards = boards.filter(board => board.location?.projectKey === project.key);
+
+  if (project.boards) {
+    const wanted = project.boards;
+    const missing = wanted.filter(entry => !projectBoards.some(board => matchesBoard(board, entry)));
+    if (missing.length && !fromFlags) {
+      throw new Error(`Board(s) ${missing.join(', ')} not found in project ${project.key}`);
+    }
+    return projectBoards.filter(board => wanted.some(entry => matchesBoard(board, entry)));
+  }
+
+  const scrumBoards = projectBoards.filter(board => board.type === 'scrum');
+  if (scrumBoards.length) return scrumBoards;
+
+  if (!projectBoards.length) {
+    throw new Error(`No board found for project ${project.key}`);
+  }
+  return projectBoards.slice(0, 1);
+}
@@ -0,0 +1,197 @@
+import * as crypto from 'crypto';
+import * as path from 'path';
+import { readJsonConfig } from './config';
+import { computeEstimateStats, withLoggedSeconds } from './metrics/estimates';
+import { groupSummaryByTeam, teamOf } from './metrics/teams';
+import { UNKNOWN_PERSON, labelSummary } from './people';
+import { EstimateRollup, SprintSummary } from './types';
+
+// Stable pseudonyms, or every per-person figure added up per team so no person-level stats are left
+export type PeopleRedaction = 'pseudonym' | 'team';
+export type IssueKeyRedaction = 'keep' | 'hash' | 'strip';
+export type HoursRedaction = 'keep' | 'bucket' | 'drop';
+
+export const PEOPLE_REDACTIONS: PeopleRedaction[] = ['pseudonym', 'team'];
+export const ISSUE_KEY_REDACTIONS: IssueKeyRedaction[] = ['keep', 'hash', 'strip'];
+export const HOURS_REDACTIONS: HoursRedaction[] = ['keep', 'bucket', 'drop'];
+
+// How --redact rewrites the summaries, as configured in config/redact.json
+export interface RedactConfig {
+  people: PeopleRedaction;
+  // Hashed keys still tie the tables together; stripped ones only keep the project key
+  issueKeys: IssueKeyRedaction;
+  // Hours logged per person and per issue, rounded to HOURS_BUCKET or left out. Estimate ratios follow the
+  // rounded hours or are left out with them; team totals (people "team") are kept as they are
+  hours: HoursRedaction;
+}
+
+export const DEFAULT_REDACT_CONFIG_PATH = path.join('config', 'redact.json');
+
+export const DEFAULT_REDACT_CONFIG: RedactConfig = {
+  people: 'pseudonym',
+  issueKeys: 'hash',
+  hours: 'bucket'
+};
+
+const HOURS_BUCKET = 10 * 3600;
+
+// Flow and estimate stats bucket unassigned issues under this name; it is nobody to hide
+const UNASSIGNED = 'Unassigned';
+
+function mapValues<T, U>(stats: { [name: string]: T }, map: (value: T) => U): { [name: string]: U } {
+  return Object.fromEntries(Object.entries(stats).map(([name, value]) => [name, map(value)]));
+}
+
+// Check the shape of a parsed redact config, throwing with every problem found
+export function validateRedactConfig(value: unknown): RedactConfig {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new Error('Invalid redact config: expected an object with "people", "issueKeys" and/or "hours"');
+  }
+
+  const errors: string[] = [];
+  const { people, issueKeys, hours, ...rest } = value as { [name: string]: unknown };
+  Object.keys(rest).forEach(name => errors.push(`unknown key "${name}"`));
+
+  const checkChoice = (name: string, choice: unknown, choices: string[]) => {
+    if (choice !== undefined && !choices.includes(choice as string)) {
+      errors.push(`${name} must be one of ${choices.map(entry => `"${entry}"`).join(', ')}`);
+    }
+  };
+  checkChoice('people', people, PEOPLE_REDACTIONS);
+  checkChoice('issueKeys', issueKeys, ISSUE_KEY_REDACTIONS);
+  checkChoice('hours', hours, HOURS_REDACTIONS);
+
+  if (errors.length) {
+    throw new Error(`Invalid redact config:\n  - ${errors.join('\n  - ')}`);
+  }
+
+  return { ...DEFAULT_REDACT_CONFIG, ...(value as Partial<RedactConfig>) };
+}
+
+export function loadRedactConfig(configPath?: string): RedactConfig {
+  const parsed = readJsonConfig('Redact', DEFAULT_REDACT_CONFIG_PATH, 'JIRA_REDACT_CONFIG', configPath);
+  return parsed === undefined ? DEFAULT_REDACT_CONFIG : validateRedactConfig(parsed);
+}
+
+// Rewrites sprint summaries for publishing. The same salt gives the same pseudonyms and hashed keys,
+// so reports from separate runs, like the static site archive, still agree on who is who.
+export class Redactor {
+  private readonly config: RedactConfig;
+  private readonly salt: string;
+
+  constructor(config: RedactConfig, salt: string = process.env.JIRA_REDACT_SALT || crypto.randomBytes(16).toString('hex')) {
+    this.config = config;
+    this.salt = salt;
+  }
+
+  private hash(value: string): string {
+    return crypto.createHmac('sha256', this.salt).update(value).digest('hex').slice(0, 8);
+  }
+
+  person(id: string): string {
+    return id === UNKNOWN_PERSON || id === UNASSIGNED ? id : `Person ${this.hash(id)}`;
+  }
+
+  // ABC-123 becomes ABC-1f3a9c2e, or just ABC when stripped; a trailing * marking fallback credits is kept
+  issueKey(key: string): string {
+    if (this.config.issueKeys === 'keep') return key;
+    const issueKey = key.replace(/\*$/, '');
+    const project = issueKey.split('-')[0];
+    return (this.config.issueKeys === 'strip' ? project : `${project}-${this.hash(issueKey)}`) + key.slice(issueKey.length);
+  }
+
+  private hours(seconds: number): number {
+    return Math.round(seconds / HOURS_BUCKET) * HOURS_BUCKET;
+  }
+
+  redact(summary: SprintSummary): SprintSummary {
+    const pseudonyms: { [id: string]: string } = {};
+    Object.keys(summary.people).forEach(id => { pseudonyms[id] = this.person(id); });
+    const pseudonymised: SprintSummary = {
+      ...labelSummary(summary, pseudonyms),
+      people: Object.fromEntries(Object.entries(summary.people)
+        .map(([id, person]) => [pseudonyms[id], { name: pseudonyms[id], team: person.team }]))
+    };
+
+    const redacted = this.config.people === 'team' ? this.groupByTeam(pseudonymised) : this.redactHours(pseudonymised);
+    return { ...this.redactIssueKeys(redacted), redacted: this.config };
+  }
+
+  // Issue cards and credit drill-downs name people even when grouped by team; here they get the team instead
+  private groupByTeam(summary: SprintSummary): SprintSummary {
+    const team = (id: string) => teamOf(summary, id);
+    const grouped = groupSummaryByTeam(summary);
+    return {
+      ...grouped,
+      issueDetails: grouped.issueDetails.map(issue => ({ ...issue, assignee: issue.assignee && team(issue.assignee) })),
+      credits: grouped.credits.map(credit => ({
+        ...credit,
+        transition: credit.transition && { ...credit.transition, author: team(credit.transition.author) }
+      }))
+    };
+  }
+
+  // A ratio next to its estimate gives the logged hours back, so ratios are recomputed from the rounded
+  // hours, or left out together with the hours and the per-issue comparisons
+  private redactHours(summary: SprintSummary): SprintSummary {
+    if (this.config.hours === 'keep') return summary;
+    const { overrunRatio, total, assignees, issues } = summary.estimateStats;
+
+    if (this.config.hours === 'bucket') {
+      return {
+        ...summary,
+        timeLogged: mapValues(summary.timeLogged, seconds => this.hours(seconds)),
+        estimateStats: computeEstimateStats(
+          issues.map(issue => withLoggedSeconds(issue, this.hours(issue.loggedSeconds), overrunRatio)), overrunRatio)
+      };
+    }
+
+    const dropped = (stats: EstimateRollup): EstimateRollup =>
+      ({ ...stats, loggedSeconds: null, ratio: null, medianRatio: null, distribution: {} });
+    return {
+      ...summary,
+      timeLogged: {},
+      estimateStats: { overrunRatio, total: dropped(total), assignees: mapValues(assignees, dropped), issues: [] }
+    };
+  }
+
+  private redactIssueKeys(summary: SprintSummary): SprintSummary {
+    if (this.config.issueKeys === 'keep') return summary;
+    const key = (issueKey: string) => this.issueKey(issueKey);
+    const keyed = <T extends { key: string }>(issue: T): T => ({ ...issue, key: key(issue.key) });
+
+    return {
+      ...summary,
+      completionStats: mapValues(summary.completionStats, stats => ({ ...stats, completedIssues: stats.completedIssues.map(key) })),
+      reviewerStats: mapValues(summary.reviewerStats, stats => ({ ...stats, reviewedIssues: stats.reviewedIssues.map(key) })),
+      shipperStats: mapValues(summary.shipperStats, stats => ({ ...stats, shippedIssues: stats.shippedIssues.map(key) })),
+      spilloverStats: mapValues(summary.spilloverStats, stats => ({
+        ...stats,
+        issues: stats.issues.map(keyed),
+        ageGroups: {
+          recent: stats.ageGroups.recent.map(key),
+          moderate: stats.ageGroups.moderate.map(key),
+          old: stats.ageGroups.old.map(key),
+          critical: stats.ageGroups.critical.map(key)
+        }
+      })),
+      flowStats: { ...summary.flowStats, issues: summary.flowStats.issues.map(keyed) },
+      pointStats: summary.pointStats && {
+        ...summary.pointStats,
+        addedIssues: summary.pointStats.addedIssues.map(key),
+        removedIssues: summary.pointStats.removedIssues.map(key)
+      },
+      estimateStats: { ...summary.estimateStats, issues: summary.estimateStats.issues.map(keyed) },
+      carryOver: summary.carryOver.map(keyed),
+      // The summary text would give away what a hashed key stands for; stripped keys leave nothing to look up
+      issueDetails: this.config.issueKeys === 'strip' ? [] : summary.issueDetails.map(issue => ({ ...keyed(issue), summary: '' })),
+      credits: summary.credits.map(keyed),
+      missingEstimates: summary.missingEstimates.map(keyed)
+    };
+  }
+}
+
+export function redactSummaries(sprintSummaries: SprintSummary[], config: RedactConfig): SprintSummary[] {
+  const redactor = new Redactor(config);
+  return sprintSummaries.map(summary => redactor.redact(summary));
+}
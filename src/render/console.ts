@@ -0,0 +1,926 @@
+import chalk from 'chalk';
+import { getAgeGroupLabel } from '../metrics';
+import { AgeThresholds, DEFAULT_AGE_THRESHOLDS } from '../metrics/options';
+import { RollupRow, computeRollup } from '../metrics/rollup';
+import { GroupBy, groupByTeam } from '../metrics/teams';
+import { TrendMetrics, TrendPoint } from '../metrics/trends';
+import { labelPeople } from '../people';
+import { BoardSprint } from '../sprints';
+import { AgeGroup, DurationStats, EstimateRollup, IssueCompletionStats, ReviewerStats, ShipperStats, SpilloverStats, SprintSummary } from '../types';
+
+function formatDate(dateStr: string): string {
+  return new Date(dateStr).toLocaleDateString('en-GB', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric'
+  });
+}
+
+function getCompletionColor(completed: number, total: number): Function {
+  const percentage = (completed / total) * 100;
+  if (percentage >= 80) return chalk.green;
+  if (percentage >= 50) return chalk.yellow;
+  return chalk.red;
+}
+
+function getTimeLogColor(hours: number): Function {
+  if (hours > 60) return chalk.green;
+  if (hours > 40) return chalk.yellow;
+  return chalk.red;
+}
+
+// Add helper function to convert Jira time to hours
+function convertJiraTimeToHours(timeSpentSeconds: number): number {
+  return timeSpentSeconds / 3600; // Convert seconds to hours
+}
+
+// Color of a spillover age group, as grouped with JIRA_SPILLOVER_AGE_THRESHOLDS
+function getSpilloverAgeColor(ageGroup: AgeGroup): Function {
+  if (ageGroup === 'recent') return chalk.yellow;
+  if (ageGroup === 'moderate') return chalk.magenta;
+  if (ageGroup === 'old') return chalk.red;
+  return chalk.bgRed.white; // Critical: white on red background
+}
+
+// Durations above two days read better in days
+function formatDuration(hours: number | null): string {
+  if (hours === null) return '-';
+  return hours >= 48 ? `${Math.round((hours / 24) * 10) / 10}d` : `${Math.round(hours)}h`;
+}
+
+function formatDurationStats(stats: DurationStats): string {
+  return `${formatDuration(stats.medianHours)} / ${formatDuration(stats.p85Hours)}`;
+}
+
+// Sprint names are only unique within a board, so prefix the board once several are reported
+function sprintLabel(sprint: SprintSummary, multipleBoards: boolean): string {
+  return multipleBoards ? `${sprint.boardName} / ${sprint.name}` : sprint.name;
+}
+
+// Print the id, name, state and dates of each sprint
+export function printSprintList(boardSprints: BoardSprint[]): void {
+  const multipleBoards = new Set(boardSprints.map(({ board }) => board.id)).size > 1;
+  const maxNameLength = Math.max(...boardSprints.map(({ sprint }) => sprint.name.length), 11);
+  const maxBoardLength = multipleBoards ? Math.max(...boardSprints.map(({ board }) => board.name.length), 5) + 2 : 0;
+  const headerLine = '─'.repeat(maxNameLength + maxBoardLength + 50);
+
+  console.log('\n' + chalk.bold.blue('Sprints:'));
+  console.log(chalk.gray(headerLine));
+  console.log(
+    chalk.bold.white('ID'.padEnd(8)) +
+    (multipleBoards ? chalk.bold.white('Board'.padEnd(maxBoardLength)) : '') +
+    chalk.bold.white('Sprint'.padEnd(maxNameLength + 2)) +
+    chalk.bold.white('State'.padEnd(10)) +
+    chalk.bold.white('Start'.padEnd(14)) +
+    chalk.bold.white('End')
+  );
+  console.log(chalk.gray(headerLine));
+
+  for (const { board, sprint } of boardSprints) {
+    console.log(
+      chalk.gray(String(sprint.id).padEnd(8)) +
+      (multipleBoards ? chalk.cyan(board.name.padEnd(maxBoardLength)) : '') +
+      chalk.white(sprint.name.padEnd(maxNameLength + 2)) +
+      chalk.cyan((sprint.state || '').padEnd(10)) +
+      chalk.yellow((sprint.startDate ? formatDate(sprint.startDate) : '-').padEnd(14)) +
+      chalk.yellow(sprint.endDate ? formatDate(sprint.endDate) : '-')
+    );
+  }
+  console.log(chalk.gray(headerLine));
+}
+
+// Print every console table and the leaderboard for the given sprints, per person or per team
+export function printSprintReport(
+  summaries: SprintSummary[],
+  groupBy: GroupBy = 'person',
+  ageThresholds: AgeThresholds = DEFAULT_AGE_THRESHOLDS
+): void {
+  // Stats are keyed on person ids; the tables show names, or team names when grouped by team
+  const sprintSummaries = labelPeople(groupBy === 'team' ? groupByTeam(summaries) : summaries);
+  if (groupBy === 'team') {
+    console.log(chalk.gray('\nPeople are grouped by their team in config/people.json'));
+  }
+
+  // Collect everyone who logged time in any sprint
+  const allAssignees = new Set<string>();
+  sprintSummaries.forEach(sprint => Object.keys(sprint.timeLogged).forEach(assignee => allAssignees.add(assignee)));
+
+  // Sort assignees for consistent column order
+  const sortedAssignees = Array.from(allAssignees).sort();
+  
+  // Get max lengths for column sizing
+  const multipleBoards = new Set(sprintSummaries.map(s => s.boardId)).size > 1;
+  const maxNameLength = Math.max(...sprintSummaries.map(s => sprintLabel(s, multipleBoards).length), 11);
+  const maxDateLength = 12;
+  const maxIssuesLength = Math.max(...sprintSummaries.map(s => String(s.totalIssues).length), 5);
+  const assigneeColumnWidth = 10;
+  
+  // Print the table
+  console.log('\n' + chalk.bold.blue('Sprint Summary Table:'));
+  
+  // Calculate total width based on fixed columns and number of assignees
+  const headerLine = '─'.repeat(
+    maxNameLength + 
+    (maxDateLength * 2) + 
+    (maxIssuesLength * 3) + // Three columns for Total, Done, and UAT
+    8 + // Space for completion percentage
+    (assigneeColumnWidth * sortedAssignees.length) + 
+    14 // Additional padding
+  );
+  console.log(chalk.gray(headerLine));
+  
+  // Print headers
+  let header = 
+    chalk.bold.white('Sprint'.padEnd(maxNameLength + 2)) +
+    chalk.bold.white('Start'.padEnd(maxDateLength + 2)) +
+    chalk.bold.white('End'.padEnd(maxDateLength + 2)) +
+    chalk.bold.white('Total'.padEnd(maxIssuesLength + 2)) +
+    chalk.bold.magenta('UAT'.padEnd(maxIssuesLength + 2)) +
+    chalk.bold.white('Done'.padEnd(maxIssuesLength + 2)) +
+    chalk.bold.white('%'.padEnd(5));
+  
+  // Add assignee columns for time logged
+  for (const assignee of sortedAssignees) {
+    header += chalk.bold.cyan(assignee.substring(0, assigneeColumnWidth).padEnd(assigneeColumnWidth + 2));
+  }
+
+  // Print sprint rows
+  for (const sprint of sprintSummaries) {
+    if (sprint.error) {
+      console.log(
+        chalk.white(sprintLabel(sprint, multipleBoards).padEnd(maxNameLength + 2)) +
+        chalk.yellow(formatDate(sprint.startDate).padEnd(maxDateLength + 2)) +
+        chalk.yellow(formatDate(sprint.endDate).padEnd(maxDateLength + 2)) +
+        chalk.red('FAILED, not fetched from Jira')
+      );
+      continue;
+    }
+
+    const completionPercentage = (sprint.completedIssues / sprint.totalIssues) * 100;
+    const completionColor = getCompletionColor(sprint.completedIssues, sprint.totalIssues);
+    
+    let row = 
+      chalk.white(sprintLabel(sprint, multipleBoards).padEnd(maxNameLength + 2)) +
+      chalk.yellow(formatDate(sprint.startDate).padEnd(maxDateLength + 2)) +
+      chalk.yellow(formatDate(sprint.endDate).padEnd(maxDateLength + 2)) +
+      chalk.blue(String(sprint.totalIssues).padEnd(maxIssuesLength + 2)) +
+      chalk.magenta(String(sprint.uatReadyIssues).padEnd(maxIssuesLength + 2)) +
+      completionColor(String(sprint.completedIssues).padEnd(maxIssuesLength + 2)) +
+      completionColor(Math.round(completionPercentage) + '%'.padEnd(2));
+    
+    // Add time logged for each assignee
+    for (const assignee of sortedAssignees) {
+      const hours = sprint.timeLogged[assignee] 
+        ? convertJiraTimeToHours(sprint.timeLogged[assignee])
+        : 0;
+      const hoursStr = Math.round(hours).toString() + 'h';
+      const timeColor = getTimeLogColor(hours);
+      row += timeColor(hoursStr.padEnd(assigneeColumnWidth + 2));
+    }
+    
+    console.log(row);
+  }
+  
+  // Add total row
+  console.log(chalk.gray(headerLine));
+  const totalIssues = sprintSummaries.reduce((sum, s) => sum + s.totalIssues, 0);
+  const totalCompleted = sprintSummaries.reduce((sum, s) => sum + s.completedIssues, 0);
+  const totalUatReady = sprintSummaries.reduce((sum, s) => sum + s.uatReadyIssues, 0);
+  const totalCompletionPercentage = (totalCompleted / totalIssues) * 100;
+  const totalCompletionColor = getCompletionColor(totalCompleted, totalIssues);
+
+  let totalRow = 
+    chalk.bold.white('TOTAL'.padEnd(maxNameLength + 2)) +
+    ''.padEnd(maxDateLength + 2) +
+    ''.padEnd(maxDateLength + 2) +
+    chalk.bold.blue(String(totalIssues).padEnd(maxIssuesLength + 2)) +
+    chalk.bold.magenta(String(totalUatReady).padEnd(maxIssuesLength + 2)) +
+    totalCompletionColor(String(totalCompleted).padEnd(maxIssuesLength + 2)) +
+    totalCompletionColor(Math.round(totalCompletionPercentage) + '%'.padEnd(2));
+
+  // Add total hours per assignee
+  for (const assignee of sortedAssignees) {
+    const totalHours = convertJiraTimeToHours(sprintSummaries.reduce((sum, sprint) => 
+      sum + (sprint.timeLogged[assignee] || 0), 0));
+    const hoursStr = Math.round(totalHours).toString() + 'h';
+    const timeColor = getTimeLogColor(totalHours);
+    totalRow += timeColor(hoursStr.padEnd(assigneeColumnWidth + 2));
+  }
+  console.log(totalRow);
+  console.log(chalk.gray(headerLine));
+
+  // After printing the main table, add the Issue Completion table
+  console.log('\n' + chalk.bold.blue('Issue Completion Table:'));
+  
+  // Calculate total width for the new table
+  const completionHeaderLine = '─'.repeat(maxNameLength + 40);
+  console.log(chalk.gray(completionHeaderLine));
+  
+  // Print completion table headers
+  const completionHeader = 
+    chalk.bold.white('Sprint'.padEnd(maxNameLength + 2)) +
+    chalk.bold.white('Assignee'.padEnd(20)) +
+    chalk.bold.white('Started'.padEnd(10)) +
+    chalk.bold.white('Done'.padEnd(8)) +
+    chalk.bold.white('Completed Issues');
+  
+  console.log(completionHeader);
+  console.log(chalk.gray(completionHeaderLine));
+  
+  // Print completion stats for each sprint
+  for (const sprint of sprintSummaries) {
+    const assignees = Object.keys(sprint.completionStats).sort();
+    
+    for (const assignee of assignees) {
+      const stats = sprint.completionStats[assignee];
+      const row = 
+        chalk.white(sprintLabel(sprint, multipleBoards).padEnd(maxNameLength + 2)) +
+        chalk.cyan(assignee.padEnd(20)) +
+        chalk.yellow(String(stats.started).padEnd(10)) +
+        getCompletionColor(stats.completed, stats.started)(String(stats.completed).padEnd(8)) +
+        chalk.gray(stats.completedIssues.join(', '));
+      
+      console.log(row);
+    }
+    
+    // Add a separator line between sprints
+    console.log(chalk.gray(completionHeaderLine));
+  }
+  
+  // Add total row for completion stats
+  const totalStats: IssueCompletionStats = {};
+  for (const sprint of sprintSummaries) {
+    for (const [assignee, stats] of Object.entries(sprint.completionStats)) {
+      totalStats[assignee] = totalStats[assignee] || { started: 0, completed: 0, completedIssues: [] };
+      totalStats[assignee].started += stats.started;
+      totalStats[assignee].completed += stats.completed;
+      totalStats[assignee].completedIssues = totalStats[assignee].completedIssues.concat(stats.completedIssues);
+    }
+  }
+  
+  // Print total stats with completed issues
+  const sortedTotalAssignees = Object.keys(totalStats).sort();
+  for (const assignee of sortedTotalAssignees) {
+    const stats = totalStats[assignee];
+    const row = 
+      chalk.bold.white('TOTAL'.padEnd(maxNameLength + 2)) +
+      chalk.cyan(assignee.padEnd(20)) +
+      chalk.yellow(String(stats.started).padEnd(10)) +
+      getCompletionColor(stats.completed, stats.started)(String(stats.completed).padEnd(8)) +
+      chalk.gray(stats.completedIssues.join(', '));
+    
+    console.log(row);
+  }
+  console.log(chalk.gray(completionHeaderLine));
+
+  // After printing the Issue Completion table, add the Reviewers table
+  console.log('\n' + chalk.bold.blue('Reviewers Table:'));
+
+  // Calculate total width for the reviewers table
+  const reviewersHeaderLine = '─'.repeat(maxNameLength + 40);
+  console.log(chalk.gray(reviewersHeaderLine));
+
+  // Print reviewers table headers
+  const reviewersHeader = 
+    chalk.bold.white('Sprint'.padEnd(maxNameLength + 2)) +
+    chalk.bold.white('Reviewer'.padEnd(20)) +
+    chalk.bold.white('Reviewed'.padEnd(10)) +
+    chalk.bold.white('Issues');
+
+  console.log(reviewersHeader);
+  console.log(chalk.gray(reviewersHeaderLine));
+
+  // Print reviewer stats for each sprint
+  for (const sprint of sprintSummaries) {
+    const reviewers = Object.keys(sprint.reviewerStats).sort();
+    
+    for (const reviewer of reviewers) {
+      const stats = sprint.reviewerStats[reviewer];
+      const row = 
+        chalk.white(sprintLabel(sprint, multipleBoards).padEnd(maxNameLength + 2)) +
+        chalk.cyan(reviewer.padEnd(20)) +
+        chalk.yellow(String(stats.reviewed).padEnd(10)) +
+        chalk.gray(stats.reviewedIssues.join(', '));
+      
+      console.log(row);
+    }
+    
+    // Add a separator line between sprints
+    console.log(chalk.gray(reviewersHeaderLine));
+  }
+
+  // Add total row for reviewer stats
+  const totalReviewerStats: ReviewerStats = {};
+  for (const sprint of sprintSummaries) {
+    for (const [reviewer, stats] of Object.entries(sprint.reviewerStats)) {
+      totalReviewerStats[reviewer] = totalReviewerStats[reviewer] || { reviewed: 0, reviewedIssues: [] };
+      totalReviewerStats[reviewer].reviewed += stats.reviewed;
+      totalReviewerStats[reviewer].reviewedIssues = totalReviewerStats[reviewer].reviewedIssues.concat(stats.reviewedIssues);
+    }
+  }
+
+  // Print total reviewer stats
+  const sortedTotalReviewers = Object.keys(totalReviewerStats).sort();
+  for (const reviewer of sortedTotalReviewers) {
+    const stats = totalReviewerStats[reviewer];
+    const row = 
+      chalk.bold.white('TOTAL'.padEnd(maxNameLength + 2)) +
+      chalk.cyan(reviewer.padEnd(20)) +
+      chalk.yellow(String(stats.reviewed).padEnd(10)) +
+      chalk.gray(stats.reviewedIssues.join(', '));
+    
+    console.log(row);
+  }
+  console.log(chalk.gray(reviewersHeaderLine));
+
+  // After printing the Reviewers table, add the Shippers table
+  console.log('\n' + chalk.bold.blue('Shippers Table:'));
+
+  // Calculate total width for the shippers table
+  const shippersHeaderLine = '─'.repeat(maxNameLength + 40);
+  console.log(chalk.gray(shippersHeaderLine));
+
+  // Print shippers table headers
+  const shippersHeader = 
+    chalk.bold.white('Sprint'.padEnd(maxNameLength + 2)) +
+    chalk.bold.white('Shipper'.padEnd(20)) +
+    chalk.bold.white('Shipped'.padEnd(10)) +
+    chalk.bold.white('Issues');
+
+  console.log(shippersHeader);
+  console.log(chalk.gray(shippersHeaderLine));
+
+  // Print shipper stats for each sprint
+  for (const sprint of sprintSummaries) {
+    const shippers = Object.keys(sprint.shipperStats).sort();
+    
+    for (const shipper of shippers) {
+      const stats = sprint.shipperStats[shipper];
+      const row = 
+        chalk.white(sprintLabel(sprint, multipleBoards).padEnd(maxNameLength + 2)) +
+        chalk.cyan(shipper.padEnd(20)) +
+        chalk.yellow(String(stats.shipped).padEnd(10)) +
+        chalk.gray(stats.shippedIssues.join(', '));
+      
+      console.log(row);
+    }
+    
+    // Add a separator line between sprints
+    console.log(chalk.gray(shippersHeaderLine));
+  }
+
+  // Add total row for shipper stats
+  const totalShipperStats: ShipperStats = {};
+  for (const sprint of sprintSummaries) {
+    for (const [shipper, stats] of Object.entries(sprint.shipperStats)) {
+      totalShipperStats[shipper] = totalShipperStats[shipper] || { shipped: 0, shippedIssues: [] };
+      totalShipperStats[shipper].shipped += stats.shipped;
+      totalShipperStats[shipper].shippedIssues = totalShipperStats[shipper].shippedIssues.concat(stats.shippedIssues);
+    }
+  }
+
+  // Print total shipper stats
+  const sortedTotalShippers = Object.keys(totalShipperStats).sort();
+  for (const shipper of sortedTotalShippers) {
+    const stats = totalShipperStats[shipper];
+    const row = 
+      chalk.bold.white('TOTAL'.padEnd(maxNameLength + 2)) +
+      chalk.cyan(shipper.padEnd(20)) +
+      chalk.yellow(String(stats.shipped).padEnd(10)) +
+      chalk.gray(stats.shippedIssues.join(', '));
+    
+    console.log(row);
+  }
+  console.log(chalk.gray(shippersHeaderLine));
+
+  // After the Shippers table, add the Spillover table with age grouping
+  console.log('\n' + chalk.bold.blue('Spillover Issues Table:'));
+  const spilloverHeaderLine = '─'.repeat(maxNameLength + 80);
+  console.log(chalk.gray(spilloverHeaderLine));
+
+  // Print spillover table headers
+  const spilloverHeader = 
+    chalk.bold.white('Sprint'.padEnd(maxNameLength + 2)) +
+    chalk.bold.white('Assignee'.padEnd(20)) +
+    chalk.bold.white('Count'.padEnd(8)) +
+    chalk.bold.white('Weeks'.padEnd(8)) +
+    chalk.bold.white('Issues by Age Group');
+
+  console.log(spilloverHeader);
+  console.log(chalk.gray(spilloverHeaderLine));
+
+  // Print spillover stats for each sprint
+  for (const sprint of sprintSummaries) {
+    const assignees = Object.keys(sprint.spilloverStats).sort();
+    
+    for (const assignee of assignees) {
+      const stats = sprint.spilloverStats[assignee];
+      let issuesByGroup = '';
+      
+      // Add issues by age group with color coding
+      if (stats.ageGroups.recent.length) {
+        issuesByGroup += chalk.yellow(`Recent: ${stats.ageGroups.recent.join(', ')} `);
+      }
+      if (stats.ageGroups.moderate.length) {
+        issuesByGroup += chalk.magenta(`Moderate: ${stats.ageGroups.moderate.join(', ')} `);
+      }
+      if (stats.ageGroups.old.length) {
+        issuesByGroup += chalk.red(`Old: ${stats.ageGroups.old.join(', ')} `);
+      }
+      if (stats.ageGroups.critical.length) {
+        issuesByGroup += chalk.bgRed.white(`Critical: ${stats.ageGroups.critical.join(', ')}`);
+      }
+      
+      const row = 
+        chalk.white(sprintLabel(sprint, multipleBoards).padEnd(maxNameLength + 2)) +
+        chalk.cyan(assignee.padEnd(20)) +
+        chalk.yellow(String(stats.count).padEnd(8)) +
+        chalk.yellow(String(stats.totalSprintWeeks).padEnd(8)) +
+        issuesByGroup;
+      
+      console.log(row);
+    }
+    
+    // Add a separator line between sprints
+    console.log(chalk.gray(spilloverHeaderLine));
+  }
+
+  // Add total row for spillover stats
+  const totalSpilloverStats: SpilloverStats = {};
+  let totalSprintWeeks = 0;
+
+  for (const sprint of sprintSummaries) {
+    for (const [assignee, stats] of Object.entries(sprint.spilloverStats)) {
+      totalSpilloverStats[assignee] = totalSpilloverStats[assignee] || {
+        count: 0,
+        totalSprintWeeks: 0,
+        issues: [],
+        ageGroups: { recent: [], moderate: [], old: [], critical: [] }
+      };
+      totalSpilloverStats[assignee].count += stats.count;
+      totalSpilloverStats[assignee].totalSprintWeeks += stats.totalSprintWeeks;
+      totalSpilloverStats[assignee].issues = totalSpilloverStats[assignee].issues.concat(stats.issues);
+      
+      // Combine age groups
+      Object.keys(stats.ageGroups).forEach(group => {
+        const typedGroup = group as AgeGroup;
+        totalSpilloverStats[assignee].ageGroups[typedGroup] = 
+          totalSpilloverStats[assignee].ageGroups[typedGroup].concat(stats.ageGroups[typedGroup]);
+      });
+      
+      totalSprintWeeks += stats.totalSprintWeeks;
+    }
+  }
+
+  // Print total spillover stats with age groups
+  const sortedTotalSpillover = Object.keys(totalSpilloverStats).sort();
+  for (const assignee of sortedTotalSpillover) {
+    const stats = totalSpilloverStats[assignee];
+    let totalIssuesByGroup = '';
+    
+    // Add total issues by age group with color coding
+    if (stats.ageGroups.recent.length) {
+      totalIssuesByGroup += chalk.yellow(`Recent: ${stats.ageGroups.recent.join(', ')} `);
+    }
+    if (stats.ageGroups.moderate.length) {
+      totalIssuesByGroup += chalk.magenta(`Moderate: ${stats.ageGroups.moderate.join(', ')} `);
+    }
+    if (stats.ageGroups.old.length) {
+      totalIssuesByGroup += chalk.red(`Old: ${stats.ageGroups.old.join(', ')} `);
+    }
+    if (stats.ageGroups.critical.length) {
+      totalIssuesByGroup += chalk.bgRed.white(`Critical: ${stats.ageGroups.critical.join(', ')}`);
+    }
+    
+    const row = 
+      chalk.bold.white('TOTAL'.padEnd(maxNameLength + 2)) +
+      chalk.cyan(assignee.padEnd(20)) +
+      chalk.yellow(String(stats.count).padEnd(8)) +
+      chalk.yellow(String(stats.totalSprintWeeks).padEnd(8)) +
+      totalIssuesByGroup;
+    
+    console.log(row);
+  }
+
+  // Print overall total sprint-weeks
+  console.log(chalk.gray(spilloverHeaderLine));
+  console.log(chalk.bold(`Total Cumulative Sprint-Weeks Across All Issues: ${totalSprintWeeks}`));
+  console.log(chalk.gray(spilloverHeaderLine));
+
+  printCarryOverTable(sprintSummaries, multipleBoards, maxNameLength, ageThresholds);
+  printFlowTables(sprintSummaries, multipleBoards, maxNameLength);
+  printPointsTable(sprintSummaries, multipleBoards, maxNameLength);
+  printEstimateTable(sprintSummaries, multipleBoards, maxNameLength);
+
+  // Add Leaderboard
+  console.log('\n' + chalk.bold.blue('🏆 Leaderboard'));
+  
+  // Helper function to get top performers
+  function getTopPerformers(data: { [key: string]: number }, limit: number = 3): [string, number][] {
+    return Object.entries(data)
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, limit);
+  }
+
+  // Print per-sprint leaderboards
+  for (const sprint of sprintSummaries) {
+    console.log('\n' + chalk.bold.yellow(`Sprint ${sprintLabel(sprint, multipleBoards)} Champions:`));
+    console.log(chalk.gray('─'.repeat(50)));
+
+    // Hours logged leaders
+    const hoursLogged: { [key: string]: number } = {};
+    Object.entries(sprint.timeLogged).forEach(([person, seconds]) => {
+      hoursLogged[person] = convertJiraTimeToHours(seconds);
+    });
+    const topHours = getTopPerformers(hoursLogged);
+    console.log(chalk.bold.cyan('⏱️  Most Hours Logged:'));
+    topHours.forEach(([person, hours], index) => {
+      console.log(chalk.white(`   ${index + 1}. ${person}: ${Math.round(hours)}h`));
+    });
+
+    // Issues completed leaders
+    const issuesCompleted: { [key: string]: number } = {};
+    Object.entries(sprint.completionStats).forEach(([person, stats]) => {
+      issuesCompleted[person] = stats.completed;
+    });
+    const topCompleters = getTopPerformers(issuesCompleted);
+    console.log(chalk.bold.green('\n✅ Most Issues Completed:'));
+    topCompleters.forEach(([person, count], index) => {
+      console.log(chalk.white(`   ${index + 1}. ${person}: ${count} issues`));
+    });
+
+    // Top reviewers
+    const reviewed: { [key: string]: number } = {};
+    Object.entries(sprint.reviewerStats).forEach(([person, stats]) => {
+      reviewed[person] = stats.reviewed;
+    });
+    const topReviewers = getTopPerformers(reviewed);
+    console.log(chalk.bold.magenta('\n👀 Top Reviewers:'));
+    topReviewers.forEach(([person, count], index) => {
+      console.log(chalk.white(`   ${index + 1}. ${person}: ${count} reviews`));
+    });
+
+    // Top shippers
+    const shipped: { [key: string]: number } = {};
+    Object.entries(sprint.shipperStats).forEach(([person, stats]) => {
+      shipped[person] = stats.shipped;
+    });
+    const topShippers = getTopPerformers(shipped);
+    console.log(chalk.bold.blue('\n🚢 Top Shippers:'));
+    topShippers.forEach(([person, count], index) => {
+      console.log(chalk.white(`   ${index + 1}. ${person}: ${count} shipped`));
+    });
+  }
+
+  // Print overall leaderboard
+  console.log('\n' + chalk.bold.yellow('🌟 Overall Champions:'));
+  console.log(chalk.gray('─'.repeat(50)));
+
+  // Overall hours logged
+  const totalHoursLogged: { [key: string]: number } = {};
+  sprintSummaries.forEach(sprint => {
+    Object.entries(sprint.timeLogged).forEach(([person, seconds]) => {
+      totalHoursLogged[person] = (totalHoursLogged[person] || 0) + convertJiraTimeToHours(seconds);
+    });
+  });
+
+  const overallTopHours = getTopPerformers(totalHoursLogged);
+  console.log(chalk.bold.cyan('⏱️  Most Hours Logged Overall:'));
+  overallTopHours.forEach(([person, hours], index) => {
+    console.log(chalk.white(`   ${index + 1}. ${person}: ${Math.round(hours)}h`));
+  });
+
+  // Overall issues completed
+  const totalIssuesCompleted: { [key: string]: number } = {};
+  sprintSummaries.forEach(sprint => {
+    Object.entries(sprint.completionStats).forEach(([person, stats]) => {
+      totalIssuesCompleted[person] = (totalIssuesCompleted[person] || 0) + stats.completed;
+    });
+  });
+
+  const overallTopCompleters = getTopPerformers(totalIssuesCompleted);
+  console.log(chalk.bold.green('\n✅ Most Issues Completed Overall:'));
+  overallTopCompleters.forEach(([person, count], index) => {
+    console.log(chalk.white(`   ${index + 1}. ${person}: ${count} issues`));
+  });
+
+  // Overall top reviewers
+  const totalReviewed: { [key: string]: number } = {};
+  sprintSummaries.forEach(sprint => {
+    Object.entries(sprint.reviewerStats).forEach(([person, stats]) => {
+      totalReviewed[person] = (totalReviewed[person] || 0) + stats.reviewed;
+    });
+  });
+
+  const overallTopReviewers = getTopPerformers(totalReviewed);
+  console.log(chalk.bold.magenta('\n👀 Top Reviewers Overall:'));
+  overallTopReviewers.forEach(([person, count], index) => {
+    console.log(chalk.white(`   ${index + 1}. ${person}: ${count} reviews`));
+  });
+
+  // Overall top shippers
+  const totalShipped: { [key: string]: number } = {};
+  sprintSummaries.forEach(sprint => {
+    Object.entries(sprint.shipperStats).forEach(([person, stats]) => {
+      totalShipped[person] = (totalShipped[person] || 0) + stats.shipped;
+    });
+  });
+
+  const overallTopShippers = getTopPerformers(totalShipped);
+  console.log(chalk.bold.blue('\n🚢 Top Shippers Overall:'));
+  overallTopShippers.forEach(([person, count], index) => {
+    console.log(chalk.white(`   ${index + 1}. ${person}: ${count} shipped`));
+  });
+
+  if (multipleBoards) {
+    printRollup(computeRollup(summaries));
+  }
+}
+
+// Print issues that passed through several sprints or left the sprint, with the sprints they went through.
+// Rollovers are colored like spillover ages, both being counts of sprints.
+function printCarryOverTable(
+  sprintSummaries: SprintSummary[],
+  multipleBoards: boolean,
+  maxNameLength: number,
+  ageThresholds: AgeThresholds
+): void {
+  console.log('\n' + chalk.bold.blue('Carried Over Issues Table:'));
+  const carryOverHeaderLine = '─'.repeat(maxNameLength + 90);
+  console.log(chalk.gray(carryOverHeaderLine));
+  console.log(
+    chalk.bold.white('Sprint'.padEnd(maxNameLength + 2)) +
+    chalk.bold.white('Issue'.padEnd(12)) +
+    chalk.bold.white('Assignee'.padEnd(20)) +
+    chalk.bold.white('Rollovers'.padEnd(11)) +
+    chalk.bold.white('Left'.padEnd(9)) +
+    chalk.bold.white('Sprints')
+  );
+  console.log(chalk.gray(carryOverHeaderLine));
+
+  for (const sprint of sprintSummaries) {
+    const label = sprintLabel(sprint, multipleBoards).padEnd(maxNameLength + 2);
+    const carried = [...sprint.carryOver].sort((a, b) => b.rollovers - a.rollovers || a.key.localeCompare(b.key));
+    for (const issue of carried) {
+      const path = issue.timeline
+        .map(visit => visit.exit === 'removed' || visit.exit === 'backlog' ? `${visit.sprintName} (${visit.exit})` : visit.sprintName)
+        .join(' → ');
+      console.log(
+        chalk.white(label) +
+        (issue.done ? chalk.green : chalk.white)(issue.key.padEnd(12)) +
+        chalk.cyan((issue.assignee || 'Unassigned').padEnd(20)) +
+        getSpilloverAgeColor(getAgeGroupLabel(issue.rollovers, ageThresholds))(String(issue.rollovers).padEnd(11)) +
+        (issue.exit && issue.exit !== 'carried' ? chalk.red : chalk.gray)((issue.exit || '-').padEnd(9)) +
+        chalk.gray(path)
+      );
+    }
+    if (carried.length) console.log(chalk.gray(carryOverHeaderLine));
+  }
+}
+
+// Print cycle and lead time (median / p85) per sprint and assignee, then the time spent in each status
+function printFlowTables(sprintSummaries: SprintSummary[], multipleBoards: boolean, maxNameLength: number): void {
+  console.log('\n' + chalk.bold.blue('Cycle & Lead Time Table (median / p85):'));
+  const flowHeaderLine = '─'.repeat(maxNameLength + 64);
+  console.log(chalk.gray(flowHeaderLine));
+  console.log(
+    chalk.bold.white('Sprint'.padEnd(maxNameLength + 2)) +
+    chalk.bold.white('Assignee'.padEnd(20)) +
+    chalk.bold.white('Done'.padEnd(6)) +
+    chalk.bold.white('Cycle Time'.padEnd(18)) +
+    chalk.bold.white('Lead Time')
+  );
+  console.log(chalk.gray(flowHeaderLine));
+
+  for (const sprint of sprintSummaries) {
+    const { flowStats } = sprint;
+    const label = sprintLabel(sprint, multipleBoards).padEnd(maxNameLength + 2);
+    console.log(
+      chalk.white(label) +
+      chalk.bold.cyan('All'.padEnd(20)) +
+      chalk.yellow(String(flowStats.cycleTime.count).padEnd(6)) +
+      chalk.green(formatDurationStats(flowStats.cycleTime).padEnd(18)) +
+      chalk.magenta(formatDurationStats(flowStats.leadTime))
+    );
+
+    for (const assignee of Object.keys(flowStats.assignees).sort()) {
+      const stats = flowStats.assignees[assignee];
+      console.log(
+        chalk.white(label) +
+        chalk.cyan(assignee.padEnd(20)) +
+        chalk.yellow(String(stats.cycleTime.count).padEnd(6)) +
+        chalk.green(formatDurationStats(stats.cycleTime).padEnd(18)) +
+        chalk.magenta(formatDurationStats(stats.leadTime))
+      );
+    }
+    console.log(chalk.gray(flowHeaderLine));
+  }
+
+  console.log('\n' + chalk.bold.blue('Time in Status (median / p85):'));
+  console.log(chalk.gray(flowHeaderLine));
+  for (const sprint of sprintSummaries) {
+    const statuses = Object.entries(sprint.flowStats.timeInStatus)
+      .sort((a, b) => (b[1].medianHours || 0) - (a[1].medianHours || 0))
+      .map(([status, stats]) => `${status}: ${formatDurationStats(stats)}`);
+    console.log(chalk.white(sprintLabel(sprint, multipleBoards).padEnd(maxNameLength + 2)) + chalk.gray(statuses.join(', ')));
+  }
+  console.log(chalk.gray(flowHeaderLine));
+}
+
+// Average completed points over the sprint and the ones before it on the same board
+function rollingVelocity(sprintSummaries: SprintSummary[], index: number, window: number = 3): number {
+  const sprint = sprintSummaries[index];
+  const previous = sprintSummaries
+    .slice(0, index + 1)
+    .filter(candidate => candidate.boardId === sprint.boardId && candidate.pointStats)
+    .slice(-window);
+  return previous.reduce((sum, candidate) => sum + candidate.pointStats!.completedPoints, 0) / previous.length;
+}
+
+// Print committed vs. delivered story points and the velocity trend, when story points are configured
+function printPointsTable(sprintSummaries: SprintSummary[], multipleBoards: boolean, maxNameLength: number): void {
+  if (!sprintSummaries.some(sprint => sprint.pointStats)) return;
+
+  console.log('\n' + chalk.bold.blue('Story Points Table:'));
+  const pointsHeaderLine = '─'.repeat(maxNameLength + 76);
+  console.log(chalk.gray(pointsHeaderLine));
+  console.log(
+    chalk.bold.white('Sprint'.padEnd(maxNameLength + 2)) +
+    chalk.bold.white('Committed'.padEnd(11)) +
+    chalk.bold.white('Added'.padEnd(8)) +
+    chalk.bold.white('Removed'.padEnd(9)) +
+    chalk.bold.white('Done'.padEnd(8)) +
+    chalk.bold.white('Of Committed'.padEnd(14)) +
+    chalk.bold.white('Say/Do'.padEnd(8)) +
+    chalk.bold.white('Velocity (3)')
+  );
+  console.log(chalk.gray(pointsHeaderLine));
+
+  sprintSummaries.forEach((sprint, index) => {
+    const points = sprint.pointStats;
+    if (!points) return;
+
+    const sayDoColor = getCompletionColor(points.committedCompletedPoints, points.committedPoints);
+    const sayDo = points.committedPoints ? Math.round((points.committedCompletedPoints / points.committedPoints) * 100) : 0;
+    console.log(
+      chalk.white(sprintLabel(sprint, multipleBoards).padEnd(maxNameLength + 2)) +
+      chalk.blue(String(points.committedPoints).padEnd(11)) +
+      chalk.yellow(`+${points.addedPoints}`.padEnd(8)) +
+      chalk.magenta(`-${points.removedPoints}`.padEnd(9)) +
+      chalk.green(String(points.completedPoints).padEnd(8)) +
+      sayDoColor(String(points.committedCompletedPoints).padEnd(14)) +
+      sayDoColor(`${sayDo}%`.padEnd(8)) +
+      chalk.cyan(String(Math.round(rollingVelocity(sprintSummaries, index) * 10) / 10))
+    );
+  });
+  console.log(chalk.gray(pointsHeaderLine));
+}
+
+function formatRatio(ratio: number | null): string {
+  return ratio === null ? '-' : `${Math.round(ratio * 100)}%`;
+}
+
+function getRatioColor(ratio: number | null, overrunRatio: number): Function {
+  if (ratio === null) return chalk.gray;
+  if (ratio > overrunRatio) return chalk.red;
+  if (ratio > 1.2 || ratio < 0.5) return chalk.yellow;
+  return chalk.green;
+}
+
+// Print logged time against original estimates per sprint and assignee, then the issues that overran
+function printEstimateTable(sprintSummaries: SprintSummary[], multipleBoards: boolean, maxNameLength: number): void {
+  console.log('\n' + chalk.bold.blue('Estimate Accuracy Table (logged / estimated):'));
+  const estimateHeaderLine = '─'.repeat(maxNameLength + 80);
+  console.log(chalk.gray(estimateHeaderLine));
+  console.log(
+    chalk.bold.white('Sprint'.padEnd(maxNameLength + 2)) +
+    chalk.bold.white('Assignee'.padEnd(20)) +
+    chalk.bold.white('Issues'.padEnd(8)) +
+    chalk.bold.white('Estimated'.padEnd(11)) +
+    chalk.bold.white('Logged'.padEnd(10)) +
+    chalk.bold.white('Ratio'.padEnd(8)) +
+    chalk.bold.white('Median'.padEnd(8)) +
+    chalk.bold.white('Overruns')
+  );
+  console.log(chalk.gray(estimateHeaderLine));
+
+  for (const sprint of sprintSummaries) {
+    const { estimateStats } = sprint;
+    const label = sprintLabel(sprint, multipleBoards).padEnd(maxNameLength + 2);
+    const printRow = (name: string, nameColor: Function, stats: EstimateRollup) => {
+      console.log(
+        chalk.white(label) +
+        nameColor(name.padEnd(20)) +
+        chalk.yellow(String(stats.count).padEnd(8)) +
+        chalk.blue(`${Math.round(convertJiraTimeToHours(stats.estimateSeconds))}h`.padEnd(11)) +
+        chalk.cyan((stats.loggedSeconds === null ? '-' : `${Math.round(convertJiraTimeToHours(stats.loggedSeconds))}h`).padEnd(10)) +
+        getRatioColor(stats.ratio, estimateStats.overrunRatio)(formatRatio(stats.ratio).padEnd(8)) +
+        getRatioColor(stats.medianRatio, estimateStats.overrunRatio)(formatRatio(stats.medianRatio).padEnd(8)) +
+        (stats.overruns ? chalk.red : chalk.gray)(String(stats.overruns))
+      );
+    };
+
+    printRow('All', chalk.bold.cyan, estimateStats.total);
+    for (const assignee of Object.keys(estimateStats.assignees).sort()) {
+      printRow(assignee, chalk.cyan, estimateStats.assignees[assignee]);
+    }
+
+    const overruns = estimateStats.issues.filter(issue => issue.overrun).sort((a, b) => b.ratio - a.ratio);
+    if (overruns.length) {
+      console.log(
+        chalk.white(label) +
+        chalk.red(`Over ${formatRatio(estimateStats.overrunRatio)}: `) +
+        chalk.gray(overruns.map(issue => `${issue.key} (${formatRatio(issue.ratio)})`).join(', '))
+      );
+    }
+    console.log(chalk.gray(estimateHeaderLine));
+  }
+}
+
+// Print totals per board and project so several teams can be compared side by side
+function printRollup(rows: RollupRow[]): void {
+  const maxLabelLength = Math.max(...rows.map(row => row.label.length + (row.level === 'board' ? 2 : 0)), 10);
+  const headerLine = '─'.repeat(maxLabelLength + 62);
+
+  console.log('\n' + chalk.bold.blue('Cross-team Roll-up:'));
+  console.log(chalk.gray(headerLine));
+  console.log(
+    chalk.bold.white('Board'.padEnd(maxLabelLength + 2)) +
+    chalk.bold.white('Sprints'.padEnd(9)) +
+    chalk.bold.white('Total'.padEnd(8)) +
+    chalk.bold.magenta('UAT'.padEnd(8)) +
+    chalk.bold.white('Done'.padEnd(8)) +
+    chalk.bold.white('%'.padEnd(6)) +
+    chalk.bold.white('Hours'.padEnd(9)) +
+    chalk.bold.white('Spill'.padEnd(7)) +
+    chalk.bold.white('People')
+  );
+  console.log(chalk.gray(headerLine));
+
+  for (const row of rows) {
+    const completionColor = getCompletionColor(row.completedIssues, row.totalIssues);
+    const label = row.level === 'board' ? `  ${row.label}` : row.label;
+    const labelColor = row.level === 'board' ? chalk.white : chalk.bold.white;
+    if (row.level === 'all') console.log(chalk.gray(headerLine));
+
+    console.log(
+      labelColor(label.padEnd(maxLabelLength + 2)) +
+      chalk.gray(String(row.sprints).padEnd(9)) +
+      chalk.blue(String(row.totalIssues).padEnd(8)) +
+      chalk.magenta(String(row.uatReadyIssues).padEnd(8)) +
+      completionColor(String(row.completedIssues).padEnd(8)) +
+      completionColor(`${row.totalIssues ? Math.round((row.completedIssues / row.totalIssues) * 100) : 0}%`.padEnd(6)) +
+      chalk.cyan(`${Math.round(convertJiraTimeToHours(row.secondsLogged))}h`.padEnd(9)) +
+      chalk.yellow(String(row.spilloverIssues).padEnd(7)) +
+      chalk.gray(String(row.people))
+    );
+  }
+  console.log(chalk.gray(headerLine));
+}
+
+// Print sprint over sprint figures with their rolling averages, marking figures revised after the sprint ended
+export function printTrends(trends: TrendPoint[]): void {
+  if (!trends.length) {
+    console.log(chalk.yellow('No snapshots found. Run a report or an export first to start recording trends.'));
+    return;
+  }
+
+  const multipleBoards = new Set(trends.map(point => point.boardId)).size > 1;
+  const label = (point: TrendPoint) => multipleBoards ? `${point.boardName} / ${point.name}` : point.name;
+  const maxNameLength = Math.max(...trends.map(point => label(point).length), 6);
+  const headerLine = '─'.repeat(maxNameLength + 84);
+  const cell = (point: TrendPoint, metric: keyof TrendMetrics, suffix: string) => {
+    const revised = point.revisedAfterClose.includes(metric);
+    const text = `${point[metric]}${suffix}${revised ? '*' : ''} (${point.rolling[metric]}${suffix})`;
+    return (revised ? chalk.red : chalk.white)(text.padEnd(18));
+  };
+
+  console.log('\n' + chalk.bold.blue('Trends (sprint value, rolling average in brackets):'));
+  console.log(chalk.gray(headerLine));
+  console.log(
+    chalk.bold.white('Sprint'.padEnd(maxNameLength + 2)) +
+    chalk.bold.white('Completion'.padEnd(18)) +
+    chalk.bold.white('Hours'.padEnd(18)) +
+    chalk.bold.white('Reviewed'.padEnd(18)) +
+    chalk.bold.white('Spillover'.padEnd(18)) +
+    chalk.bold.white('Snaps')
+  );
+  console.log(chalk.gray(headerLine));
+
+  trends.forEach((point, index) => {
+    if (index > 0 && trends[index - 1].boardId !== point.boardId) console.log(chalk.gray(headerLine));
+    console.log(
+      chalk.white(label(point).padEnd(maxNameLength + 2)) +
+      cell(point, 'completionPct', '%') +
+      cell(point, 'hoursLogged', 'h') +
+      cell(point, 'reviewed', '') +
+      cell(point, 'spillover', '') +
+      chalk.gray(String(point.snapshots))
+    );
+  });
+  console.log(chalk.gray(headerLine));
+
+  if (trends.some(point => point.revisedAfterClose.length)) {
+    console.log(chalk.red('* changed after the sprint ended'));
+  }
+}
@@ -0,0 +1,311 @@
+import chalk from 'chalk';
+import * as fs from 'fs';
+import * as path from 'path';
+import { labelSummary, personLabels } from '../people';
+import { AgeGroup, CarryOverIssue, EstimateStats, FlowStats, PointStats, SprintSummary } from '../types';
+
+export type ExportFormat = 'json' | 'csv';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['json', 'csv'];
+
+export const DEFAULT_EXPORT_DIR = 'out';
+
+// Bump when a column or JSON field is renamed, removed or changes meaning; adding new ones keeps the version.
+// 2: person and assignee fields hold person labels rather than display names, and estimates.*.loggedSeconds
+//    is null when hours were dropped with --redact
+export const EXPORT_SCHEMA_VERSION = 2;
+
+type CsvValue = string | number | boolean | null;
+
+interface CsvTable {
+  columns: string[];
+  rows: CsvValue[][];
+}
+
+export interface ExportSprint {
+  id: number;
+  name: string;
+  projectKey: string;
+  boardId: number;
+  boardName: string;
+  startDate: string;
+  endDate: string;
+  totalIssues: number;
+  completedIssues: number;
+  uatReadyIssues: number;
+  completionPercentage: number;
+  secondsLogged: { [person: string]: number };
+  completion: { person: string; started: number; completed: number; issues: string[] }[];
+  reviewers: { person: string; reviewed: number; issues: string[] }[];
+  shippers: { person: string; shipped: number; issues: string[] }[];
+  spillover: { person: string; key: string; startDate: string; sprintAge: number; ageGroup: AgeGroup }[];
+  flow: FlowStats;
+  points: PointStats | null;
+  estimates: EstimateStats;
+  carryOver: CarryOverIssue[];
+  missingEstimates: { key: string; assignee: string | null }[];
+  // Everyone named above: person and assignee fields hold the label, id is the Jira account id
+  people: { id: string; label: string; name: string; team: string | null }[];
+  // Why the sprint could not be fetched; its figures are empty then
+  error: string | null;
+}
+
+export interface ExportDocument {
+  schemaVersion: number;
+  generatedAt: string;
+  sprints: ExportSprint[];
+}
+
+function percentage(part: number, total: number): number {
+  return total ? Math.round((part / total) * 1000) / 10 : 0;
+}
+
+// Map the internal summary onto the published schema, so internal renames don't leak into exports.
+// People are shown by label, so pass the labels of every exported sprint to keep them consistent.
+export function toExportSprint(sprintSummary: SprintSummary, labels: { [id: string]: string } = personLabels([sprintSummary])): ExportSprint {
+  const summary = labelSummary(sprintSummary, labels);
+  return {
+    id: summary.id,
+    name: summary.name,
+    projectKey: summary.projectKey,
+    boardId: summary.boardId,
+    boardName: summary.boardName,
+    startDate: summary.startDate,
+    endDate: summary.endDate,
+    totalIssues: summary.totalIssues,
+    completedIssues: summary.completedIssues,
+    uatReadyIssues: summary.uatReadyIssues,
+    completionPercentage: percentage(summary.completedIssues, summary.totalIssues),
+    secondsLogged: { ...summary.timeLogged },
+    completion: Object.entries(summary.completionStats).map(([person, stats]) => ({
+      person,
+      started: stats.started,
+      completed: stats.completed,
+      issues: stats.completedIssues
+    })),
+    reviewers: Object.entries(summary.reviewerStats).map(([person, stats]) => ({
+      person,
+      reviewed: stats.reviewed,
+      issues: stats.reviewedIssues
+    })),
+    shippers: Object.entries(summary.shipperStats).map(([person, stats]) => ({
+      person,
+      shipped: stats.shipped,
+      issues: stats.shippedIssues
+    })),
+    spillover: Object.entries(summary.spilloverStats).flatMap(([person, stats]) =>
+      stats.issues.map(issue => ({
+        person,
+        key: issue.key,
+        startDate: issue.startDate,
+        sprintAge: issue.sprintAge,
+        ageGroup: issue.ageGroup
+      }))
+    ),
+    flow: summary.flowStats,
+    points: summary.pointStats,
+    estimates: summary.estimateStats,
+    carryOver: summary.carryOver,
+    missingEstimates: summary.missingEstimates.map(issue => ({ ...issue })),
+    people: Object.entries(summary.people || {}).map(([id, person]) => ({
+      id,
+      label: labels[id] || person.name,
+      name: person.name,
+      team: person.team
+    })),
+    error: summary.error || null
+  };
+}
+
+export function buildExportDocument(sprintSummaries: SprintSummary[]): ExportDocument {
+  const labels = personLabels(sprintSummaries);
+  return {
+    schemaVersion: EXPORT_SCHEMA_VERSION,
+    generatedAt: new Date().toISOString(),
+    sprints: sprintSummaries.map(summary => toExportSprint(summary, labels))
+  };
+}
+
+// One table per report section, in long format so spreadsheets can pivot them
+export function buildCsvTables(document: ExportDocument): { [name: string]: CsvTable } {
+  const sprintColumns = ['sprint_id', 'sprint_name'];
+  const sprintCells = (sprint: ExportSprint): CsvValue[] => [sprint.id, sprint.name];
+
+  return {
+    summary: {
+      columns: [...sprintColumns, 'start_date', 'end_date', 'total_issues', 'uat_ready_issues', 'completed_issues', 'completion_pct', 'hours_logged', 'project_key', 'board_id', 'board_name', 'error'],
+      rows: document.sprints.map(sprint => [
+        ...sprintCells(sprint),
+        sprint.startDate,
+        sprint.endDate,
+        sprint.totalIssues,
+        sprint.uatReadyIssues,
+        sprint.completedIssues,
+        sprint.completionPercentage,
+        toHours(Object.values(sprint.secondsLogged).reduce((sum, seconds) => sum + seconds, 0)),
+        sprint.projectKey,
+        sprint.boardId,
+        sprint.boardName,
+        sprint.error
+      ])
+    },
+    'time-logged': {
+      columns: [...sprintColumns, 'person', 'hours_logged'],
+      rows: document.sprints.flatMap(sprint =>
+        Object.entries(sprint.secondsLogged).map(([person, seconds]) => [...sprintCells(sprint), person, toHours(seconds)])
+      )
+    },
+    completion: {
+      columns: [...sprintColumns, 'person', 'started', 'completed', 'issue_keys'],
+      rows: document.sprints.flatMap(sprint =>
+        sprint.completion.map(entry => [...sprintCells(sprint), entry.person, entry.started, entry.completed, entry.issues.join(';')])
+      )
+    },
+    reviewers: {
+      columns: [...sprintColumns, 'person', 'reviewed', 'issue_keys'],
+      rows: document.sprints.flatMap(sprint =>
+        sprint.reviewers.map(entry => [...sprintCells(sprint), entry.person, entry.reviewed, entry.issues.join(';')])
+      )
+    },
+    shippers: {
+      columns: [...sprintColumns, 'person', 'shipped', 'issue_keys'],
+      rows: document.sprints.flatMap(sprint =>
+        sprint.shippers.map(entry => [...sprintCells(sprint), entry.person, entry.shipped, entry.issues.join(';')])
+      )
+    },
+    spillover: {
+      columns: [...sprintColumns, 'person', 'issue_key', 'start_date', 'sprint_age', 'age_group'],
+      rows: document.sprints.flatMap(sprint =>
+        sprint.spillover.map(entry => [...sprintCells(sprint), entry.person, entry.key, entry.startDate, entry.sprintAge, entry.ageGroup])
+      )
+    },
+    'cycle-time': {
+      columns: [...sprintColumns, 'issue_key', 'assignee', 'done', 'cycle_time_hours', 'lead_time_hours'],
+      rows: document.sprints.flatMap(sprint =>
+        sprint.flow.issues.map(issue => [
+          ...sprintCells(sprint), issue.key, issue.assignee, issue.done, issue.cycleTimeHours, issue.leadTimeHours
+        ])
+      )
+    },
+    'time-in-status': {
+      columns: [...sprintColumns, 'issue_key', 'status', 'hours'],
+      rows: document.sprints.flatMap(sprint =>
+        sprint.flow.issues.flatMap(issue =>
+          Object.entries(issue.timeInStatusHours).map(([status, hours]) => [...sprintCells(sprint), issue.key, status, hours])
+        )
+      )
+    },
+    points: {
+      columns: [
+        ...sprintColumns, 'committed_issues', 'committed_points', 'added_points', 'removed_points',
+        'completed_points', 'committed_completed_points', 'added_issue_keys', 'removed_issue_keys'
+      ],
+      rows: document.sprints.flatMap(sprint => {
+        const points = sprint.points;
+        return points ? [[
+          ...sprintCells(sprint), points.committedIssues, points.committedPoints, points.addedPoints, points.removedPoints,
+          points.completedPoints, points.committedCompletedPoints, points.addedIssues.join(';'), points.removedIssues.join(';')
+        ]] : [];
+      })
+    },
+    burndown: {
+      columns: [...sprintColumns, 'date', 'scope_points', 'completed_points', 'remaining_points'],
+      rows: document.sprints.flatMap(sprint =>
+        (sprint.points ? sprint.points.daily : []).map(day => [
+          ...sprintCells(sprint), day.date, day.scopePoints, day.completedPoints, day.remainingPoints
+        ])
+      )
+    },
+    estimates: {
+      columns: [...sprintColumns, 'issue_key', 'assignee', 'done', 'estimate_hours', 'logged_hours', 'ratio', 'overrun'],
+      rows: document.sprints.flatMap(sprint =>
+        sprint.estimates.issues.map(issue => [
+          ...sprintCells(sprint), issue.key, issue.assignee, issue.done,
+          toHours(issue.estimateSeconds), toHours(issue.loggedSeconds), issue.ratio, issue.overrun
+        ])
+      )
+    },
+    'carry-over': {
+      columns: [
+        ...sprintColumns, 'issue_key', 'assignee', 'done', 'rollovers', 'exit',
+        'visit_sprint_id', 'visit_sprint_name', 'added_at', 'left_at', 'visit_exit'
+      ],
+      rows: document.sprints.flatMap(sprint =>
+        sprint.carryOver.flatMap(issue =>
+          issue.timeline.map(visit => [
+            ...sprintCells(sprint), issue.key, issue.assignee, issue.done, issue.rollovers, issue.exit,
+            visit.sprintId, visit.sprintName, visit.addedAt, visit.leftAt, visit.exit
+          ])
+        )
+      )
+    },
+    people: {
+      columns: ['person', 'person_id', 'name', 'team'],
+      rows: Array.from(new Map(document.sprints.flatMap(sprint => sprint.people)
+        .map(person => [person.id, [person.label, person.id, person.name, person.team] as CsvValue[]])).values())
+    },
+    'missing-estimates': {
+      columns: [...sprintColumns, 'issue_key', 'assignee'],
+      rows: document.sprints.flatMap(sprint =>
+        sprint.missingEstimates.map(entry => [...sprintCells(sprint), entry.key, entry.assignee])
+      )
+    }
+  };
+}
+
+function toHours(seconds: number): number {
+  return Math.round((seconds / 3600) * 100) / 100;
+}
+
+function escapeCsv(value: CsvValue): string {
+  if (value === null) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(table: CsvTable): string {
+  return [table.columns, ...table.rows]
+    .map(row => row.map(escapeCsv).join(','))
+    .join('\r\n') + '\r\n';
+}
+
+// Write the requested export formats into outDir, alongside a manifest describing the schema
+export function writeExports(sprintSummaries: SprintSummary[], formats: ExportFormat[], outDir: string): string[] {
+  try {
+    const resolvedDir = path.resolve(outDir);
+    const sourceDir = path.resolve(__dirname, '..');
+    if (resolvedDir === sourceDir || resolvedDir.startsWith(sourceDir + path.sep)) {
+      throw new Error(`Refusing to write exports into the source directory: ${resolvedDir}`);
+    }
+    fs.mkdirSync(resolvedDir, { recursive: true });
+
+    const document = buildExportDocument(sprintSummaries);
+    const files: string[] = [];
+
+    if (formats.includes('json')) {
+      const jsonPath = path.join(resolvedDir, 'sprint-summaries.json');
+      fs.writeFileSync(jsonPath, JSON.stringify(document, null, 2));
+      files.push(jsonPath);
+    }
+
+    if (formats.includes('csv')) {
+      for (const [name, table] of Object.entries(buildCsvTables(document))) {
+        const csvPath = path.join(resolvedDir, `${name}.csv`);
+        fs.writeFileSync(csvPath, toCsv(table));
+        files.push(csvPath);
+      }
+    }
+
+    fs.writeFileSync(path.join(resolvedDir, 'manifest.json'), JSON.stringify({
+      schemaVersion: document.schemaVersion,
+      generatedAt: document.generatedAt,
+      files: files.map(file => path.basename(file))
+    }, null, 2));
+
+    files.forEach(file => console.log(chalk.green(`Exported ${file}`)));
+    return files;
+  } catch (error) {
+    console.error('Error writing exports:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,119 @@
+import chalk from 'chalk';
+import * as fs from 'fs';
+import * as path from 'path';
+import { jiraSiteUrl, parseJiraUrl } from '../jira/auth';
+import { layoutScript, loadLayoutConfig } from '../layout';
+import { groupSummaryByTeam } from '../metrics/teams';
+import { TrendPoint } from '../metrics/trends';
+import { labelSummary, personLabels } from '../people';
+import { SprintSummary } from '../types';
+import { Workflow } from '../workflow';
+
+// Where the single-file report is written, and deployed from
+export const DEFAULT_REPORT_FILE = path.join(__dirname, '..', 'sprint-report.html');
+
+// Base URL issue links point to, from JIRA_HOST with or without its scheme; empty without a host
+export function jiraBrowseUrl(host: string = process.env.JIRA_HOST || ''): string {
+  if (!host.trim()) return '';
+  return `${jiraSiteUrl(parseJiraUrl(host))}/browse/`;
+}
+
+// JSON safe to inline in a <script> block: issue summaries are typed by Jira users, and a "</script>"
+// in one would otherwise end the block and run whatever follows
+function scriptJson(value: unknown, space?: number): string {
+  return JSON.stringify(value, null, space)
+    .replace(/</g, '\\u003c')
+    .replace(/>/g, '\\u003e')
+    .replace(/&/g, '\\u0026')
+    .replace(/\u2028/g, '\\u2028')
+    .replace(/\u2029/g, '\\u2029');
+}
+
+// What the page's script works on: the sprints keyed by display label, and the same sprints added up per team
+export interface ReportSprints {
+  sprints: SprintSummary[];
+  teamSprints: SprintSummary[];
+}
+
+// People are labelled across all the sprints, so one person keeps one label. The people map is keyed
+// by label too, for the page to look up each label's team.
+export function reportSprints(sprintSummaries: SprintSummary[]): ReportSprints {
+  const labels = personLabels(sprintSummaries);
+  const label = (summary: SprintSummary): SprintSummary => ({
+    ...labelSummary(summary, labels),
+    people: Object.fromEntries(Object.entries(summary.people).map(([id, person]) => [labels[id] || id, person]))
+  });
+  return {
+    sprints: sprintSummaries.map(label),
+    teamSprints: sprintSummaries.map(summary => label(groupSummaryByTeam(summary)))
+  };
+}
+
+// What a page of the static site shows; it loads the shared data file instead of having the data inline
+export interface SitePage {
+  // Prefix leading back to the site root, e.g. "../" from a sprint page
+  root: string;
+  // Path of the page from the site root, marked in the navigation
+  path: string;
+  // Heading of sprint and person pages; the index keeps the report's own
+  title: string | null;
+  // The one sprint a sprint page shows
+  sprint: { boardId: number; id: number } | null;
+  // Display label preselected in the assignee filter of a person page
+  person: string | null;
+}
+
+// Fill in the template placeholders; site pages get empty data and fetch theirs.
+// Redacted reports do not link to Jira, which would give away the site and the real issue keys.
+export function renderReportHtml(
+  sprintSummaries: SprintSummary[],
+  workflow: Workflow,
+  trends: TrendPoint[],
+  sitePage: SitePage | null = null,
+  redacted: boolean = sprintSummaries.some(summary => summary.redacted)
+): string {
+  const templatePath = path.join(__dirname, '..', 'template.html');
+  let template = fs.readFileSync(templatePath, 'utf8');
+
+  // Replace the placeholders with the actual data, through functions so "$" in the data is not read as a replacement pattern
+  const data = reportSprints(sprintSummaries);
+  const placeholders: Array<[string, string]> = [
+    ['SPRINT_DATA_PLACEHOLDER', scriptJson(data.sprints, 2)],
+    ['TEAM_DATA_PLACEHOLDER', scriptJson(data.teamSprints, 2)],
+    ['WORKFLOW_DATA_PLACEHOLDER', scriptJson(workflow)],
+    ['JIRA_BROWSE_URL_PLACEHOLDER', scriptJson(redacted ? '' : jiraBrowseUrl())],
+    ['TRENDS_DATA_PLACEHOLDER', scriptJson(trends)],
+    ['SITE_PAGE_PLACEHOLDER', scriptJson(sitePage)]
+  ];
+  placeholders.forEach(([placeholder, json]) => { template = template.replace(placeholder, () => json); });
+  // A function, so "$" in the custom section scripts is not read as a replacement pattern
+  const layout = layoutScript(loadLayoutConfig());
+  template = template.replace('REPORT_LAYOUT_PLACEHOLDER', () => layout);
+  return template;
+}
+
+export async function generateHtmlReport(
+  sprintSummaries: SprintSummary[],
+  workflow: Workflow,
+  trends: TrendPoint[] = []
+): Promise<void> {
+  try {
+    // Log missing estimates data
+    sprintSummaries.forEach(sprint => {
+      console.log(`Sprint ${sprint.name} has ${sprint.missingEstimates.length} issues without estimates:`, 
+        sprint.missingEstimates.map(issue => issue.key).join(', '));
+    });
+
+    const html = renderReportHtml(sprintSummaries, workflow, trends);
+    
+    // Write the output file
+    const outputPath = path.resolve(process.env.JIRA_REPORT_FILE || DEFAULT_REPORT_FILE);
+    fs.writeFileSync(outputPath, html);
+    
+    console.log(chalk.green(`\nHTML report generated: ${outputPath}`));
+    console.log(chalk.blue('Open this file in your browser to view the interactive report.'));
+  } catch (error) {
+    console.error('Error generating HTML report:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,145 @@
+import chalk from 'chalk';
+import * as fs from 'fs';
+import * as path from 'path';
+import { TrendPoint } from '../metrics/trends';
+import { UNKNOWN_PERSON, personLabels } from '../people';
+import { SprintSummary } from '../types';
+import { Workflow } from '../workflow';
+import { ReportSprints, SitePage, renderReportHtml, reportSprints } from './html';
+
+export const DEFAULT_SITE_DIR = 'site';
+
+// Shared by every page, relative to the site directory
+const DATA_FILE = 'data/sprints.json';
+
+export interface SiteLink {
+  path: string;
+  label: string;
+}
+
+// The shared data file: every sprint any run has written, the latest trends and the pages to link to
+export interface SiteData {
+  generatedAt: string;
+  // The archive, keyed by person id like the summaries are
+  sprints: SprintSummary[];
+  // The archive as the pages show it
+  report: ReportSprints;
+  trends: TrendPoint[];
+  pages: { sprints: SiteLink[]; people: SiteLink[] };
+}
+
+// Permalinks: a sprint can be on several boards, so its page is keyed on both
+export function sprintPagePath(sprint: { boardId: number; id: number }): string {
+  return `sprints/${sprint.boardId}-${sprint.id}.html`;
+}
+
+export function personPagePath(id: string): string {
+  return `people/${id.replace(/[^A-Za-z0-9_-]+/g, '-')}.html`;
+}
+
+function sprintKey(sprint: SprintSummary): string {
+  return `${sprint.boardId}:${sprint.id}`;
+}
+
+// Sprints written by earlier runs; a missing file starts a new archive
+function readArchive(dataPath: string): SprintSummary[] {
+  if (!fs.existsSync(dataPath)) return [];
+  try {
+    const data = JSON.parse(fs.readFileSync(dataPath, 'utf8')) as SiteData;
+    return data.sprints || [];
+  } catch (error) {
+    throw new Error(`Could not read the site archive ${dataPath}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+// This run's sprints replace their archived copies, except ones that failed to fetch this time
+export function mergeArchive(archived: SprintSummary[], fresh: SprintSummary[]): SprintSummary[] {
+  const sprints = new Map<string, SprintSummary>();
+  archived.forEach(sprint => sprints.set(sprintKey(sprint), sprint));
+  fresh.forEach(sprint => {
+    if (!sprint.error || !sprints.has(sprintKey(sprint))) sprints.set(sprintKey(sprint), sprint);
+  });
+  return Array.from(sprints.values())
+    .sort((a, b) => new Date(a.startDate).getTime() - new Date(b.startDate).getTime() || a.boardId - b.boardId);
+}
+
+// Everyone credited with anything in the archive, with the label the pages show
+function sitePeople(sprints: SprintSummary[]): Array<{ id: string; label: string }> {
+  const labels = personLabels(sprints);
+  const ids = new Set<string>();
+  sprints.forEach(sprint => [sprint.timeLogged, sprint.completionStats, sprint.reviewerStats, sprint.shipperStats]
+    .forEach(stats => Object.keys(stats).forEach(id => ids.add(id))));
+  ids.delete(UNKNOWN_PERSON);
+  return Array.from(ids)
+    .map(id => ({ id, label: labels[id] || id }))
+    .sort((a, b) => a.label.localeCompare(b.label));
+}
+
+function writePage(siteDir: string, page: SitePage, workflow: Workflow, redacted: boolean): void {
+  const file = path.join(siteDir, page.path);
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, renderReportHtml([], workflow, [], page, redacted));
+}
+
+// A redacted site must not pick up sprints archived without --redact, nor the other way round
+function checkRedaction(archived: SprintSummary[], fresh: SprintSummary[], dataPath: string): void {
+  const redacted = fresh.some(sprint => sprint.redacted);
+  const mismatched = archived.filter(sprint => !!sprint.redacted !== redacted);
+  if (mismatched.length) {
+    throw new Error(`${dataPath} has ${mismatched.length} sprint(s) written ${redacted ? 'without' : 'with'} --redact; ` +
+      `use another site directory or ${redacted ? 'remove them' : 'pass --redact'}`);
+  }
+}
+
+// Write the multi-page site: an index of every archived sprint, a page per sprint and per person,
+// and the data file they all load. Sprints from earlier runs stay in the archive.
+export async function writeStaticSite(
+  sprintSummaries: SprintSummary[],
+  workflow: Workflow,
+  trends: TrendPoint[],
+  siteDir: string = DEFAULT_SITE_DIR
+): Promise<void> {
+  try {
+    const dataPath = path.join(siteDir, DATA_FILE);
+    const archived = readArchive(dataPath);
+    checkRedaction(archived, sprintSummaries, dataPath);
+    const sprints = mergeArchive(archived, sprintSummaries);
+    const redacted = sprints.some(sprint => sprint.redacted);
+    const people = sitePeople(sprints);
+
+    const data: SiteData = {
+      generatedAt: new Date().toISOString(),
+      sprints,
+      report: reportSprints(sprints),
+      trends,
+      pages: {
+        sprints: sprints.slice().reverse().map(sprint => ({ path: sprintPagePath(sprint), label: `${sprint.boardName} / ${sprint.name}` })),
+        people: people.map(person => ({ path: personPagePath(person.id), label: person.label }))
+      }
+    };
+    fs.mkdirSync(path.dirname(dataPath), { recursive: true });
+    fs.writeFileSync(dataPath, JSON.stringify(data));
+
+    writePage(siteDir, { root: '', path: 'index.html', title: null, sprint: null, person: null }, workflow, redacted);
+    sprints.forEach(sprint => writePage(siteDir, {
+      root: '../',
+      path: sprintPagePath(sprint),
+      title: `${sprint.name} (${sprint.boardName})`,
+      sprint: { boardId: sprint.boardId, id: sprint.id },
+      person: null
+    }, workflow, redacted));
+    people.forEach(person => writePage(siteDir, {
+      root: '../',
+      path: personPagePath(person.id),
+      title: person.label,
+      sprint: null,
+      person: person.label
+    }, workflow, redacted));
+
+    console.log(chalk.green(`\nStatic site written to ${siteDir}: ${sprints.length} sprint page(s), ${people.length} person page(s)`));
+    console.log(chalk.blue('Serve it over HTTP (e.g. GitHub Pages); the pages load their data with fetch.'));
+  } catch (error) {
+    console.error('Error writing the static site:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,59 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { SprintSummary } from './types';
+
+export const DEFAULT_SNAPSHOT_DIR = 'snapshots';
+
+// Bump when a snapshot can no longer be read as SprintSummary[]
+export const SNAPSHOT_SCHEMA_VERSION = 1;
+
+export interface Snapshot {
+  schemaVersion: number;
+  takenAt: string;
+  sprints: SprintSummary[];
+}
+
+// Every report run is kept as one timestamped JSON file, so metrics can be compared over time
+// and a closed sprint whose numbers changed afterwards can be spotted
+export class SnapshotStore {
+  readonly dir: string;
+
+  constructor(dir?: string) {
+    this.dir = path.resolve(dir || process.env.JIRA_SNAPSHOT_DIR || DEFAULT_SNAPSHOT_DIR);
+  }
+
+  save(sprintSummaries: SprintSummary[], takenAt: Date = new Date()): string {
+    const snapshot: Snapshot = {
+      schemaVersion: SNAPSHOT_SCHEMA_VERSION,
+      takenAt: takenAt.toISOString(),
+      sprints: sprintSummaries
+    };
+    // Colons are not allowed in Windows file names
+    const file = path.join(this.dir, `snapshot-${snapshot.takenAt.replace(/:/g, '-')}.json`);
+    fs.mkdirSync(this.dir, { recursive: true });
+    fs.writeFileSync(file, JSON.stringify(snapshot));
+    return file;
+  }
+
+  // Every stored snapshot, oldest first
+  loadAll(): Snapshot[] {
+    if (!fs.existsSync(this.dir)) return [];
+
+    return fs.readdirSync(this.dir)
+      .filter(file => /^snapshot-.*\.json$/.test(file))
+      .map(file => {
+        const filePath = path.join(this.dir, file);
+        let snapshot: Snapshot;
+        try {
+          snapshot = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+        } catch (error) {
+          throw new Error(`Could not parse snapshot ${filePath}: ${error instanceof Error ? error.message : error}`);
+        }
+        if (snapshot.schemaVersion !== SNAPSHOT_SCHEMA_VERSION) {
+          throw new Error(`Snapshot ${filePath} has schema version ${snapshot.schemaVersion}, expected ${SNAPSHOT_SCHEMA_VERSION}`);
+        }
+        return snapshot;
+      })
+      .sort((a, b) => a.takenAt.localeCompare(b.takenAt));
+  }
+}
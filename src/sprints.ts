@@ -0,0 +1,105 @@
+import { JiraSprint } from './jira/types';
+import { BoardRef } from './types';
+
+export interface SprintSelection {
+  sprintIds?: number[];
+  sprintName?: string;
+  last?: number;
+  since?: Date;
+  until?: Date;
+}
+
+export interface BoardSprint {
+  board: BoardRef;
+  sprint: JiraSprint;
+  // Every sprint on the board, selected or not
+  sprintHistory: JiraSprint[];
+}
+
+// "/pattern/flags" is a regular expression, anything else must match the sprint name exactly
+export function sprintNameMatcher(sprintName: string): (name: string) => boolean {
+  const regex = sprintName.match(/^\/(.+)\/([a-z]*)$/);
+  if (regex) {
+    let pattern: RegExp;
+    try {
+      pattern = new RegExp(regex[1], regex[2]);
+    } catch (error) {
+      throw new Error(`Invalid sprint name pattern ${sprintName}: ${error instanceof Error ? error.message : error}`);
+    }
+    return name => pattern.test(name);
+  }
+  return name => name.trim() === sprintName.trim();
+}
+
+function describeSelection(selection: SprintSelection): string {
+  const parts: string[] = [];
+  if (selection.sprintIds && selection.sprintIds.length) parts.push(`id ${selection.sprintIds.join(', ')}`);
+  if (selection.sprintName) parts.push(`name ${selection.sprintName}`);
+  if (selection.since) parts.push(`ending after ${selection.since.toISOString().slice(0, 10)}`);
+  if (selection.until) parts.push(`starting before ${selection.until.toISOString().slice(0, 10)}`);
+  if (selection.last) parts.push(`last ${selection.last}`);
+  return parts.join(', ');
+}
+
+// Apply the sprint filters, returning sprints ordered by start date
+function filterSprints(sprints: JiraSprint[], selection: SprintSelection): JiraSprint[] {
+  let selected = [...sprints];
+
+  if (selection.sprintIds && selection.sprintIds.length) {
+    const ids = selection.sprintIds;
+    selected = selected.filter(sprint => ids.includes(sprint.id));
+  }
+
+  if (selection.sprintName) {
+    const matches = sprintNameMatcher(selection.sprintName);
+    selected = selected.filter(sprint => matches(sprint.name));
+  }
+
+  // Date filters and --last only make sense for sprints that have been scheduled
+  if (selection.since || selection.until || selection.last) {
+    selected = selected.filter(sprint => sprint.startDate && sprint.endDate);
+  }
+  if (selection.since) {
+    const since = selection.since;
+    selected = selected.filter(sprint => new Date(sprint.endDate) >= since);
+  }
+  if (selection.until) {
+    const until = selection.until;
+    selected = selected.filter(sprint => new Date(sprint.startDate) <= until);
+  }
+
+  selected.sort((a, b) => {
+    if (!a.startDate || !b.startDate) return (a.startDate ? 0 : 1) - (b.startDate ? 0 : 1);
+    return new Date(a.startDate).getTime() - new Date(b.startDate).getTime();
+  });
+
+  if (selection.last) {
+    selected = selected.slice(-selection.last);
+  }
+
+  return selected;
+}
+
+// Apply the sprint filters to each board on its own, so --last n means the last n sprints of every team.
+// A sprint shared by several boards is only reported once, under the first board listing it.
+export function selectBoardSprints(
+  boards: Array<{ board: BoardRef; sprints: JiraSprint[] }>,
+  selection: SprintSelection
+): BoardSprint[] {
+  const seen = new Set<number>();
+  const selected: BoardSprint[] = [];
+
+  for (const { board, sprints } of boards) {
+    for (const sprint of filterSprints(sprints, selection)) {
+      if (seen.has(sprint.id)) continue;
+      seen.add(sprint.id);
+      selected.push({ board, sprint, sprintHistory: sprints });
+    }
+  }
+
+  if (!selected.length) {
+    const description = describeSelection(selection);
+    throw new Error(description ? `No sprints found matching ${description}` : 'No sprints found on the boards');
+  }
+  return selected;
+}
@@ -0,0 +1,232 @@
+import { PersonInfo } from './people';
+import { RedactConfig } from './redact';
+
+export interface IssueCompletionStats {
+  [assignee: string]: {
+    started: number;
+    completed: number;
+    completedIssues: string[]; // Array to store completed issue keys
+  };
+}
+
+// Add new interface for reviewer stats
+export interface ReviewerStats {
+  [reviewer: string]: {
+    reviewed: number;
+    reviewedIssues: string[];
+  };
+}
+
+// Add new interface for shipper stats
+export interface ShipperStats {
+  [shipper: string]: {
+    shipped: number;
+    shippedIssues: string[];
+  };
+}
+
+// Add type for age groups
+export type AgeGroup = 'recent' | 'moderate' | 'old' | 'critical';
+export type AgeGroups = {
+  [K in AgeGroup]: string[];
+};
+
+// Add new interface for spillover stats
+export interface SpilloverStats {
+  [assignee: string]: {
+    count: number;
+    totalSprintWeeks: number;
+    issues: {
+      key: string;
+      startDate: string;
+      originalSprint: string;
+      sprintAge: number;
+      ageGroup: AgeGroup;
+    }[];
+    ageGroups: AgeGroups;
+  };
+}
+
+// Median and 85th percentile of a set of durations, null when there is nothing to measure
+export interface DurationStats {
+  count: number;
+  medianHours: number | null;
+  p85Hours: number | null;
+}
+
+export interface IssueFlow {
+  key: string;
+  assignee: string | null;
+  done: boolean;
+  // First start (e.g. In Progress) to Done
+  cycleTimeHours: number | null;
+  // Created to Done
+  leadTimeHours: number | null;
+  // Time spent in every status the issue went through, Done statuses excluded
+  timeInStatusHours: { [status: string]: number };
+}
+
+export interface FlowStats {
+  cycleTime: DurationStats;
+  leadTime: DurationStats;
+  timeInStatus: { [status: string]: DurationStats };
+  assignees: {
+    [assignee: string]: {
+      cycleTime: DurationStats;
+      leadTime: DurationStats;
+    };
+  };
+  issues: IssueFlow[];
+}
+
+// Scope and completed points at the end of one sprint day
+export interface BurnDay {
+  date: string;
+  scopePoints: number;
+  completedPoints: number;
+  remainingPoints: number;
+}
+
+// Story point commitment and delivery, from the Sprint and story point changes in the changelog
+export interface PointStats {
+  // Issues in the sprint when it started, with their points at that moment
+  committedIssues: number;
+  committedPoints: number;
+  // Issues that joined or left the sprint after it started
+  addedIssues: string[];
+  addedPoints: number;
+  removedIssues: string[];
+  removedPoints: number;
+  // Issues done by the end of the sprint, and the part of them that was committed
+  completedPoints: number;
+  committedCompletedPoints: number;
+  daily: BurnDay[];
+}
+
+// Logged time against the original estimate of one issue
+export interface EstimateIssue {
+  key: string;
+  assignee: string | null;
+  done: boolean;
+  estimateSeconds: number;
+  loggedSeconds: number;
+  // Logged / estimated; above 1 means the estimate was too low
+  ratio: number;
+  overrun: boolean;
+}
+
+export interface EstimateRollup {
+  count: number;
+  estimateSeconds: number;
+  // Null when left out by --redact
+  loggedSeconds: number | null;
+  // Total logged / total estimated, null without estimated issues or when left out by --redact
+  ratio: number | null;
+  medianRatio: number | null;
+  overruns: number;
+  // Issue count per ratio bucket label, see ESTIMATE_BUCKETS; empty when left out by --redact
+  distribution: { [bucket: string]: number };
+}
+
+export interface EstimateStats {
+  overrunRatio: number;
+  total: EstimateRollup;
+  assignees: { [assignee: string]: EstimateRollup };
+  issues: EstimateIssue[];
+}
+
+// What the report shows when hovering an issue link
+export interface IssueDetails {
+  key: string;
+  summary: string;
+  status: string;
+  assignee: string | null;
+  estimateSeconds: number | null;
+  // Null when no story point field is configured or the issue has no points
+  storyPoints: number | null;
+}
+
+// Which stats table an issue was credited in
+export type CreditRole = 'completed' | 'reviewed' | 'shipped' | 'spillover';
+
+// Why an issue was credited to a person, for the report's drill-down
+export interface IssueCredit {
+  key: string;
+  role: CreditRole;
+  person: string;
+  // The status change that earned the credit, null when nobody could be credited
+  transition: { from: string; to: string; date: string; author: string } | null;
+  // Why the key carries an asterisk, null for direct credits
+  fallbackReason: string | null;
+}
+
+// How an issue's stay in a sprint ended: moved on to a later sprint, taken out while the sprint ran,
+// or taken out before it started (or without known dates). Null while it is still in the sprint.
+export type SprintExit = 'carried' | 'removed' | 'backlog';
+
+export interface SprintVisit {
+  sprintId: number | null;
+  sprintName: string;
+  // Null when the issue was already in the sprint before its first recorded Sprint change
+  addedAt: string | null;
+  leftAt: string | null;
+  exit: SprintExit | null;
+}
+
+export interface CarryOverIssue {
+  key: string;
+  assignee: string | null;
+  done: boolean;
+  // Times the issue was moved on to a later sprint
+  rollovers: number;
+  // How the issue left the reported sprint
+  exit: SprintExit | null;
+  timeline: SprintVisit[];
+}
+
+// Board a sprint was fetched from, so reports can combine several teams
+export interface BoardRef {
+  id: number;
+  name: string;
+  projectKey: string;
+}
+
+export interface SprintSummary {
+  id: number;
+  name: string;
+  boardId: number;
+  boardName: string;
+  projectKey: string;
+  startDate: string;
+  endDate: string;
+  totalIssues: number;
+  completedIssues: number;
+  uatReadyIssues: number;
+  timeLogged: {
+    [assignee: string]: number;
+  };
+  completionStats: IssueCompletionStats;
+  reviewerStats: ReviewerStats;
+  shipperStats: ShipperStats;
+  spilloverStats: SpilloverStats;
+  flowStats: FlowStats;
+  // Null when no story point field is configured
+  pointStats: PointStats | null;
+  estimateStats: EstimateStats;
+  // Issues that passed through several sprints or left this one
+  carryOver: CarryOverIssue[];
+  // Every issue in the sprint or taken out of it, for the report's issue cards
+  issueDetails: IssueDetails[];
+  // How each issue in the completion, reviewer, shipper and spillover stats was credited
+  credits: IssueCredit[];
+  missingEstimates: {
+    key: string;
+    assignee: string | null;
+  }[];
+  // Name and team of every person id the stats above are keyed on
+  people: { [id: string]: PersonInfo };
+  // Set when the sprint could not be fetched; every figure above is empty then
+  error?: string;
+  // How the summary was redacted for publishing with --redact
+  redacted?: RedactConfig;
+}
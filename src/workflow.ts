@@ -0,0 +1,186 @@
+import * as path from 'path';
+import { readJsonConfig } from './config';
+
+// Roles a status transition can play in the sprint statistics
+export type WorkflowRole = 'start' | 'review' | 'ship' | 'done';
+
+const WORKFLOW_ROLES: WorkflowRole[] = ['start', 'review', 'ship', 'done'];
+
+// Roles that need a "from" side: their fallback attribution looks at the first move out of it
+const ROLES_REQUIRING_FROM: WorkflowRole[] = ['start', 'review', 'ship'];
+
+// A set of Jira statuses, given by name and/or by status category (name or key)
+export interface StatusMatcher {
+  statuses?: string[];
+  categories?: string[];
+}
+
+export interface RoleTransition {
+  from?: StatusMatcher;
+  to: StatusMatcher;
+}
+
+export type WorkflowConfig = {
+  [R in WorkflowRole]: RoleTransition;
+};
+
+// Workflow with every category expanded to the concrete status names Jira uses in changelogs
+export interface ResolvedTransition {
+  from: string[];
+  to: string[];
+}
+
+export type Workflow = {
+  [R in WorkflowRole]: ResolvedTransition;
+};
+
+export interface JiraStatus {
+  name: string;
+  statusCategory?: {
+    key: string;
+    name: string;
+  };
+}
+
+// Matches the statuses the report was originally written against
+export const DEFAULT_WORKFLOW_CONFIG: WorkflowConfig = {
+  start: { from: { statuses: ['To Do'] }, to: { statuses: ['In Progress'] } },
+  review: { from: { statuses: ['PR Ready'] }, to: { statuses: ['Testing'] } },
+  ship: { from: { statuses: ['Testing'] }, to: { statuses: ['UAT Ready'] } },
+  done: { to: { statuses: ['Done'] } }
+};
+
+export const DEFAULT_WORKFLOW_CONFIG_PATH = path.join('config', 'workflow.json');
+
+function validateMatcher(value: unknown, location: string, errors: string[]): void {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    errors.push(`${location} must be an object with "statuses" and/or "categories"`);
+    return;
+  }
+
+  const matcher = value as { [key: string]: unknown };
+  for (const key of Object.keys(matcher)) {
+    if (key !== 'statuses' && key !== 'categories') {
+      errors.push(`${location} has unknown key "${key}"`);
+    }
+  }
+
+  let count = 0;
+  for (const key of ['statuses', 'categories']) {
+    const list = matcher[key];
+    if (list === undefined) continue;
+    if (!Array.isArray(list) || list.some(entry => typeof entry !== 'string' || !entry.trim())) {
+      errors.push(`${location}.${key} must be an array of non-empty strings`);
+      continue;
+    }
+    count += list.length;
+  }
+
+  if (count === 0) {
+    errors.push(`${location} must list at least one status or category`);
+  }
+}
+
+// Check the shape of a parsed workflow config, throwing with every problem found
+export function validateWorkflowConfig(value: unknown): WorkflowConfig {
+  const errors: string[] = [];
+
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new Error('Invalid workflow config: expected an object keyed by role');
+  }
+
+  const config = value as { [key: string]: unknown };
+  for (const key of Object.keys(config)) {
+    if (!WORKFLOW_ROLES.includes(key as WorkflowRole)) {
+      errors.push(`unknown role "${key}" (expected one of ${WORKFLOW_ROLES.join(', ')})`);
+    }
+  }
+
+  for (const role of WORKFLOW_ROLES) {
+    const transition = config[role];
+    if (typeof transition !== 'object' || transition === null || Array.isArray(transition)) {
+      errors.push(`role "${role}" is missing`);
+      continue;
+    }
+
+    const { from, to, ...rest } = transition as { [key: string]: unknown };
+    Object.keys(rest).forEach(key => errors.push(`${role} has unknown key "${key}"`));
+
+    validateMatcher(to, `${role}.to`, errors);
+    if (from !== undefined) {
+      validateMatcher(from, `${role}.from`, errors);
+    } else if (ROLES_REQUIRING_FROM.includes(role)) {
+      errors.push(`${role}.from is required`);
+    }
+  }
+
+  if (errors.length) {
+    throw new Error(`Invalid workflow config:\n  - ${errors.join('\n  - ')}`);
+  }
+
+  return config as WorkflowConfig;
+}
+
+// Read the workflow config from disk, falling back to the defaults when no file exists
+export function loadWorkflowConfig(configPath?: string): WorkflowConfig {
+  const parsed = readJsonConfig('Workflow', DEFAULT_WORKFLOW_CONFIG_PATH, 'JIRA_WORKFLOW_CONFIG', configPath);
+  return parsed === undefined ? DEFAULT_WORKFLOW_CONFIG : validateWorkflowConfig(parsed);
+}
+
+function resolveMatcher(
+  matcher: StatusMatcher | undefined,
+  location: string,
+  statuses: JiraStatus[],
+  errors: string[]
+): string[] {
+  const names = new Set<string>();
+  if (!matcher) return [];
+
+  for (const wanted of matcher.statuses || []) {
+    const status = statuses.find(s => s.name.toLowerCase() === wanted.toLowerCase());
+    if (status) {
+      names.add(status.name);
+    } else {
+      errors.push(`${location}: status "${wanted}" does not exist in Jira`);
+    }
+  }
+
+  for (const wanted of matcher.categories || []) {
+    const matching = statuses.filter(s =>
+      s.statusCategory &&
+      (s.statusCategory.name.toLowerCase() === wanted.toLowerCase() ||
+        s.statusCategory.key.toLowerCase() === wanted.toLowerCase())
+    );
+    if (matching.length) {
+      matching.forEach(s => names.add(s.name));
+    } else {
+      errors.push(`${location}: status category "${wanted}" matches no Jira status`);
+    }
+  }
+
+  return Array.from(names);
+}
+
+// Expand status categories and check every configured status against the ones Jira knows about
+export function resolveWorkflow(config: WorkflowConfig, statuses: JiraStatus[]): Workflow {
+  const errors: string[] = [];
+  const workflow = {} as Workflow;
+
+  for (const role of WORKFLOW_ROLES) {
+    workflow[role] = {
+      from: resolveMatcher(config[role].from, `${role}.from`, statuses, errors),
+      to: resolveMatcher(config[role].to, `${role}.to`, statuses, errors)
+    };
+  }
+
+  if (errors.length) {
+    throw new Error(`Workflow config does not match Jira:\n  - ${errors.join('\n  - ')}`);
+  }
+
+  return workflow;
+}
+
+// Build a JQL list such as ("UAT Ready", "Done") from status names
+export function toJqlList(statuses: string[]): string {
+  return `(${statuses.map(status => `"${status.replace(/(["\\])/g, '\\$1')}"`).join(', ')})`;
+}
@@ -0,0 +1,54 @@
+import * as assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { Anonymizer } from '../src/jira/fixtures';
+
+const anonymizer = new Anonymizer('test-salt', 'customfield_10016');
+
+function item(field: string, fromString: string | null, toString: string | null, extra: object = {}) {
+  return { field, fieldtype: 'jira', from: fromString && '1', fromString, to: toString && '2', toString, ...extra };
+}
+
+function anonymizedItems(items: object[]): Array<{ [key: string]: unknown }> {
+  const issue = { key: 'ABC-1', changelog: { histories: [{ created: '2024-03-05T09:00:00.000+0000', items }] } };
+  return (anonymizer.anonymize(issue) as { changelog: { histories: Array<{ items: Array<{ [key: string]: unknown }> }> } })
+    .changelog.histories[0].items;
+}
+
+describe('Anonymizer changelogs', () => {
+  test('keeps the status, sprint and story point changes the metrics read', () => {
+    const [status, sprint, cloudPoints, serverPoints] = anonymizedItems([
+      item('status', 'To Do', 'In Progress'),
+      item('Sprint', 'Sprint 10', 'Sprint 10, Sprint 11'),
+      item('Story Points', '3', '5', { fieldtype: 'custom', fieldId: 'customfield_10016' }),
+      item('Story Points', '3', '5', { fieldtype: 'custom' })
+    ]);
+    assert.deepEqual([status.fromString, status.toString], ['To Do', 'In Progress']);
+    assert.deepEqual([sprint.fromString, sprint.toString], ['Sprint 10', 'Sprint 10, Sprint 11']);
+    assert.deepEqual([cloudPoints.fromString, cloudPoints.toString], ['3', '5']);
+    assert.deepEqual([serverPoints.fromString, serverPoints.toString], ['3', '5']);
+  });
+
+  test('pseudonymises assignee changes', () => {
+    const [assignee] = anonymizedItems([{ field: 'assignee', from: 'acc-alice', fromString: 'Alice', to: 'acc-bob', toString: 'Bob' }]);
+    assert.deepEqual(assignee, {
+      field: 'assignee',
+      from: anonymizer.userId('acc-alice'),
+      fromString: anonymizer.person('Alice'),
+      to: anonymizer.userId('acc-bob'),
+      toString: anonymizer.person('Bob')
+    });
+  });
+
+  test('blanks every other field, custom ones included', () => {
+    const items = anonymizedItems([
+      item('summary', 'Old title', 'New title'),
+      item('labels', '', 'customer-x'),
+      item('Link', null, 'This issue blocks XYZ-7', { to: 'XYZ-7' }),
+      item('Epic Name', null, 'Secret epic', { fieldtype: 'custom', fieldId: 'customfield_10011' }),
+      item('Story Points', '3', '5', { fieldtype: 'custom', fieldId: 'customfield_10099' }),
+      item('reporter', 'Alice', 'Bob')
+    ]);
+    items.forEach(entry => ['from', 'fromString', 'to', 'toString']
+      .forEach(field => assert.ok(entry[field] === null || entry[field] === '', `${entry.field} ${field} is blank`)));
+  });
+});
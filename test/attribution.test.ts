@@ -0,0 +1,143 @@
+import * as assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import * as fs from 'fs';
+import * as path from 'path';
+import { JiraChangelog, JiraIssue, JiraSprint } from '../src/jira/types';
+import { findReviewer, findShipper, findStarter } from '../src/metrics/attribution';
+import { computeSprintSummary } from '../src/metrics/index';
+import { DEFAULT_METRICS_OPTIONS } from '../src/metrics/options';
+import { PeopleDirectory, UNKNOWN_PERSON } from '../src/people';
+import { DEFAULT_WORKFLOW_CONFIG, Workflow, resolveWorkflow } from '../src/workflow';
+
+// ABC-1 goes through every configured transition, ABC-2 skips To Do, Testing and UAT Ready,
+// ABC-3 has no status history, ABC-4 spilled over and ABC-5 was only moved by automation
+const fixture: { sprint: JiraSprint; sprintHistory: JiraSprint[]; issues: JiraIssue[] } =
+  JSON.parse(fs.readFileSync(path.join(__dirname, 'fixtures', 'attribution-issues.json'), 'utf8'));
+
+const workflow: Workflow = resolveWorkflow(DEFAULT_WORKFLOW_CONFIG,
+  ['To Do', 'Selected', 'In Progress', 'PR Ready', 'Testing', 'UAT Ready', 'Done'].map(name => ({ name })));
+const people = new PeopleDirectory({ people: [], exclude: ['acc-bot'] });
+
+function histories(key: string): JiraChangelog[] {
+  const issue = fixture.issues.find(entry => entry.key === key);
+  assert.ok(issue && issue.changelog, `fixture ${key} has a changelog`);
+  return issue.changelog.histories;
+}
+
+describe('findStarter', () => {
+  test('credits the first move from a start "from" status to a start "to" status', () => {
+    const starter = findStarter(histories('ABC-1'), workflow, people);
+    assert.equal(starter?.person, 'acc-alice');
+    assert.equal(starter?.direct, true);
+    assert.equal(starter?.date, '2024-03-05T09:00:00.000Z');
+  });
+
+  test('falls back to a move into a start status from anywhere else', () => {
+    const starter = findStarter(histories('ABC-2'), workflow, people);
+    assert.equal(starter?.person, 'acc-bob');
+    assert.equal(starter?.direct, false);
+    assert.match(starter?.reason || '', /Started from "Selected"/);
+  });
+
+  test('finds nobody without status changes', () => {
+    assert.equal(findStarter(histories('ABC-3'), workflow, people), undefined);
+  });
+
+  test('credits excluded automation accounts to Unknown', () => {
+    assert.equal(findStarter(histories('ABC-5'), workflow, people)?.person, UNKNOWN_PERSON);
+  });
+});
+
+describe('findReviewer', () => {
+  test('credits the move from PR Ready to Testing', () => {
+    const reviewer = findReviewer(histories('ABC-1'), workflow, people);
+    assert.equal(reviewer?.person, 'acc-bob');
+    assert.equal(reviewer?.direct, true);
+  });
+
+  test('falls back to whoever moved the issue out of PR Ready', () => {
+    const reviewer = findReviewer(histories('ABC-2'), workflow, people);
+    assert.equal(reviewer?.person, 'acc-carol');
+    assert.equal(reviewer?.direct, false);
+    assert.equal(reviewer?.to, 'Done');
+  });
+
+  test('finds nobody when the issue never left PR Ready', () => {
+    assert.equal(findReviewer(histories('ABC-3'), workflow, people), undefined);
+  });
+});
+
+describe('findShipper', () => {
+  test('credits the move from Testing to UAT Ready, whatever order the changelog is in', () => {
+    const shipper = findShipper(histories('ABC-1'), workflow, people);
+    assert.equal(shipper?.person, 'acc-carol');
+    assert.equal(shipper?.direct, true);
+  });
+
+  test('finds nobody when the issue never reached Testing', () => {
+    assert.equal(findShipper(histories('ABC-2'), workflow, people), undefined);
+  });
+});
+
+describe('computeSprintSummary', () => {
+  const summary = computeSprintSummary({
+    board: { id: 7, name: 'ABC board', projectKey: 'ABC' },
+    sprint: fixture.sprint,
+    sprintHistory: fixture.sprintHistory,
+    data: {
+      issues: fixture.issues,
+      total: fixture.issues.length,
+      uatTotal: 1,
+      noEstimateIssues: [],
+      removedIssues: [],
+      fetchedAt: '2024-03-15T18:00:00.000Z'
+    }
+  }, workflow, { ...DEFAULT_METRICS_OPTIONS, people });
+
+  test('marks fallback credits with an asterisk', () => {
+    assert.deepEqual(summary.completionStats['acc-alice'].completedIssues, ['ABC-1']);
+    assert.deepEqual(summary.completionStats['acc-bob'].completedIssues, ['ABC-2*']);
+    assert.deepEqual(summary.reviewerStats['acc-bob'].reviewedIssues, ['ABC-1']);
+    assert.deepEqual(summary.reviewerStats['acc-carol'].reviewedIssues, ['ABC-2*']);
+  });
+
+  test('puts done issues nobody can be credited for under Unknown', () => {
+    assert.deepEqual(summary.completionStats[UNKNOWN_PERSON].completedIssues, ['ABC-3*']);
+    assert.deepEqual(summary.reviewerStats[UNKNOWN_PERSON].reviewedIssues, ['ABC-3*']);
+    assert.deepEqual(summary.shipperStats[UNKNOWN_PERSON].shippedIssues, ['ABC-2*', 'ABC-3*', 'ABC-5']);
+    assert.deepEqual(summary.shipperStats['acc-carol'].shippedIssues, ['ABC-1']);
+  });
+
+  test('ages spillover in the board\'s sprints and credits automation to Unknown', () => {
+    assert.deepEqual(summary.spilloverStats['acc-alice'].ageGroups.recent, ['ABC-4 (2 sprints)']);
+    assert.deepEqual(summary.spilloverStats[UNKNOWN_PERSON].issues.map(issue => issue.key), ['ABC-5']);
+  });
+
+  test('explains Unknown credits in the drill-down', () => {
+    const credit = summary.credits.find(entry => entry.key === 'ABC-3' && entry.role === 'reviewed');
+    assert.equal(credit?.person, UNKNOWN_PERSON);
+    assert.equal(credit?.transition, null);
+    assert.match(credit?.fallbackReason || '', /No matching status change/);
+  });
+
+  test('counts completed issues and only the time logged during the sprint', () => {
+    assert.equal(summary.completedIssues, 3);
+    assert.deepEqual(summary.timeLogged, { 'acc-alice': 7200 });
+  });
+
+  test('names the people it credits', () => {
+    assert.equal(summary.people['acc-bob'].name, 'Bob');
+    assert.equal(summary.people[UNKNOWN_PERSON].name, UNKNOWN_PERSON);
+  });
+
+  test('summarises future sprints, which have no dates yet', () => {
+    const future = computeSprintSummary({
+      board: { id: 7, name: 'ABC board', projectKey: 'ABC' },
+      sprint: { id: 43, name: 'Sprint 43', state: 'future' } as JiraSprint,
+      sprintHistory: fixture.sprintHistory,
+      data: { issues: fixture.issues, total: fixture.issues.length, uatTotal: 0, noEstimateIssues: [], removedIssues: [], fetchedAt: '2024-03-15T18:00:00.000Z' }
+    }, workflow, { ...DEFAULT_METRICS_OPTIONS, people });
+    assert.deepEqual(future.timeLogged, {});
+    assert.equal(future.pointStats, null);
+  });
+});
@@ -0,0 +1,99 @@
+import * as assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import JiraClient from 'jira-client';
+import { completeIssueDetails, searchAllIssues } from '../src/jira/paginate';
+import { JiraHttpError } from '../src/jira/request';
+import { JiraChangelog, JiraIssue } from '../src/jira/types';
+
+const HISTORIES: JiraChangelog[] = Array.from({ length: 250 }, (_, index) => ({
+  created: new Date(Date.UTC(2024, 2, 4, 9, index)).toISOString(),
+  items: [{ field: 'status', from: null, fromString: 'To Do', to: null, toString: `Step ${index}` }]
+}));
+
+// Search results embed only the first 100 histories
+function truncatedIssue(key: string): JiraIssue {
+  return {
+    key,
+    fields: {},
+    changelog: { startAt: 0, maxResults: 100, total: HISTORIES.length, histories: HISTORIES.slice(0, 100) }
+  } as unknown as JiraIssue;
+}
+
+// jira-client rejects with the serialised error of the request function as its message
+function jiraClientError(statusCode: number): Error {
+  return new Error(JSON.stringify(new JiraHttpError(statusCode, { errorMessages: [] })));
+}
+
+describe('completeIssueDetails', () => {
+  test('pages through the changelog endpoint on Cloud', async () => {
+    const pages: number[] = [];
+    const jira = {
+      getIssueChangelog: async (_key: string, startAt: number, maxResults: number) => {
+        pages.push(startAt);
+        return { startAt, maxResults, total: HISTORIES.length, values: HISTORIES.slice(startAt, startAt + maxResults) };
+      }
+    } as unknown as JiraClient;
+
+    const [issue] = await completeIssueDetails(jira, [truncatedIssue('ABC-1')]);
+    assert.deepEqual(pages, [0, 100, 200]);
+    assert.deepEqual(issue.changelog?.histories, HISTORIES);
+  });
+
+  test('reads the changelog with the issue where the endpoint is missing, as on Data Center', async () => {
+    const calls: string[] = [];
+    const jira = {
+      getIssueChangelog: async (key: string) => {
+        calls.push(`changelog ${key}`);
+        throw jiraClientError(404);
+      },
+      findIssue: async (key: string, expand: string) => {
+        calls.push(`issue ${key} ${expand}`);
+        return { key, fields: {}, changelog: { startAt: 0, maxResults: HISTORIES.length, total: HISTORIES.length, histories: HISTORIES } };
+      }
+    } as unknown as JiraClient;
+
+    const issues = await completeIssueDetails(jira, [truncatedIssue('ABC-1'), truncatedIssue('ABC-2')]);
+    assert.deepEqual(issues.map(issue => issue.changelog?.histories.length), [250, 250]);
+    assert.deepEqual(calls, ['changelog ABC-1', 'issue ABC-1 changelog', 'issue ABC-2 changelog']);
+  });
+
+  test('passes on other failures of the changelog endpoint', async () => {
+    const jira = {
+      getIssueChangelog: async () => { throw jiraClientError(403); }
+    } as unknown as JiraClient;
+    await assert.rejects(completeIssueDetails(jira, [truncatedIssue('ABC-1')]), /403/);
+  });
+});
+
+describe('searchAllIssues', () => {
+  const keys = Array.from({ length: 230 }, (_, index) => `ABC-${index + 1}`);
+
+  test('reads every page, passing the fields and expansions on', async () => {
+    const requests: Array<{ startAt: number; fields?: string[]; expand?: string[] }> = [];
+    const jira = {
+      searchJira: async (_jql: string, options: { startAt: number; maxResults: number; fields?: string[]; expand?: string[] }) => {
+        requests.push({ startAt: options.startAt, fields: options.fields, expand: options.expand });
+        const issues = keys.slice(options.startAt, options.startAt + options.maxResults).map(key => ({ key, fields: {} }));
+        return { startAt: options.startAt, maxResults: options.maxResults, total: keys.length, issues };
+      }
+    } as unknown as JiraClient;
+
+    const issues = await searchAllIssues(jira, 'project = "ABC"', { fields: ['key'], expand: ['changelog'] });
+    assert.deepEqual(issues.map(issue => issue.key), keys);
+    assert.deepEqual(requests.map(request => request.startAt), [0, 100, 200]);
+    requests.forEach(request => assert.deepEqual([request.fields, request.expand], [['key'], ['changelog']]));
+  });
+
+  test('stops at an empty page even when the total says there are more', async () => {
+    let calls = 0;
+    const jira = {
+      searchJira: async (_jql: string, options: { startAt: number }) => {
+        calls++;
+        return { startAt: options.startAt, maxResults: 100, total: 500, issues: options.startAt ? [] : [{ key: 'ABC-1', fields: {} }] };
+      }
+    } as unknown as JiraClient;
+
+    assert.deepEqual((await searchAllIssues(jira, 'project = "ABC"')).map(issue => issue.key), ['ABC-1']);
+    assert.equal(calls, 2);
+  });
+});
@@ -0,0 +1,175 @@
+import * as assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import * as fs from 'fs';
+import * as path from 'path';
+import { JiraIssue, JiraSprint } from '../src/jira/types';
+import { computeSprintSummary } from '../src/metrics/index';
+import { DEFAULT_METRICS_OPTIONS } from '../src/metrics/options';
+import { PeopleDirectory, referencedPeople } from '../src/people';
+import { DEFAULT_REDACT_CONFIG, HoursRedaction, IssueKeyRedaction, Redactor } from '../src/redact';
+import { EstimateRollup, SprintSummary } from '../src/types';
+import { DEFAULT_WORKFLOW_CONFIG, resolveWorkflow } from '../src/workflow';
+
+const fixture: { sprint: JiraSprint; sprintHistory: JiraSprint[]; issues: JiraIssue[] } =
+  JSON.parse(fs.readFileSync(path.join(__dirname, 'fixtures', 'attribution-issues.json'), 'utf8'));
+
+// Time logged on ABC-1 (10800 of 14400 estimated), ABC-2 (9900 of 7200) and ABC-4 (46800 of 28800)
+const LOGGED: { [key: string]: Array<[string, string, number]> } = {
+  'ABC-2': [['acc-bob', '2024-03-06T10:00:00.000+0000', 9900]],
+  'ABC-4': [['acc-alice', '2024-03-12T10:00:00.000+0000', 46800]]
+};
+// Every exact figure those give: hours per issue, assignee, sprint and person, and their ratios and medians
+const EXACT_LOGGED = [10800, 9900, 46800, 57600, 67500, 54000, 0.75, 1.38, 1.63, 1.33, 1.34, 1.19];
+
+function sprintSummary(): SprintSummary {
+  const issues = fixture.issues.map(issue => !LOGGED[issue.key] ? issue : {
+    ...issue,
+    fields: {
+      ...issue.fields,
+      worklog: {
+        worklogs: LOGGED[issue.key].map(([accountId, started, timeSpentSeconds]) =>
+          ({ author: { accountId, displayName: accountId }, started, timeSpentSeconds }))
+      }
+    }
+  } as JiraIssue);
+
+  return computeSprintSummary({
+    board: { id: 7, name: 'ABC board', projectKey: 'ABC' },
+    sprint: fixture.sprint,
+    sprintHistory: fixture.sprintHistory,
+    data: { issues, total: issues.length, uatTotal: 1, noEstimateIssues: [], removedIssues: [], fetchedAt: '2024-03-15T18:00:00.000Z' }
+  }, resolveWorkflow(DEFAULT_WORKFLOW_CONFIG,
+    ['To Do', 'Selected', 'In Progress', 'PR Ready', 'Testing', 'UAT Ready', 'Done'].map(name => ({ name }))),
+  { ...DEFAULT_METRICS_OPTIONS, people });
+}
+
+const people = new PeopleDirectory({
+  people: [
+    { accountId: 'acc-alice', team: 'Backend' },
+    { accountId: 'acc-bob', team: 'Backend' },
+    { accountId: 'acc-carol', team: 'QA' }
+  ],
+  exclude: ['acc-bot']
+});
+
+function redact(hours: HoursRedaction): SprintSummary {
+  return new Redactor({ people: 'pseudonym', issueKeys: 'keep', hours }, 'test-salt').redact(sprintSummary());
+}
+
+// Every number in the hour figures of a summary
+function hourNumbers({ timeLogged, estimateStats }: SprintSummary): number[] {
+  const numbers: number[] = [];
+  JSON.stringify({ timeLogged, estimateStats }, (name, value) => {
+    if (typeof value === 'number') numbers.push(value);
+    return value;
+  });
+  return numbers;
+}
+
+function rollups(summary: SprintSummary): EstimateRollup[] {
+  return [summary.estimateStats.total, ...Object.values(summary.estimateStats.assignees)];
+}
+
+describe('Redactor hours', () => {
+  test('the unredacted summary holds the hours the redacted ones must hide', () => {
+    const summary = sprintSummary();
+    assert.deepEqual(summary.estimateStats.issues.map(issue => [issue.key, issue.loggedSeconds, issue.ratio]),
+      [['ABC-1', 10800, 0.75], ['ABC-2', 9900, 1.38], ['ABC-4', 46800, 1.63]]);
+    const numbers = hourNumbers(summary);
+    EXACT_LOGGED.forEach(value => assert.ok(numbers.includes(value), `${value} is in the summary`));
+  });
+
+  test('drop leaves no hours, nor ratios that would give them back', () => {
+    const summary = redact('drop');
+    assert.deepEqual(summary.timeLogged, {});
+    assert.deepEqual(summary.estimateStats.issues, []);
+    rollups(summary).forEach(stats => {
+      assert.equal(stats.loggedSeconds, null);
+      assert.equal(stats.ratio, null);
+      assert.equal(stats.medianRatio, null);
+      assert.deepEqual(stats.distribution, {});
+    });
+  });
+
+  test('bucket rounds every hour figure to 10h and ratios follow the rounded hours', () => {
+    const summary = redact('bucket');
+    const bucket = 10 * 3600;
+    Object.values(summary.timeLogged).forEach(seconds => assert.equal(seconds % bucket, 0));
+    summary.estimateStats.issues.forEach(issue => {
+      assert.equal(issue.loggedSeconds % bucket, 0);
+      assert.equal(issue.ratio, Math.round(issue.loggedSeconds / issue.estimateSeconds * 100) / 100);
+    });
+    rollups(summary).forEach(stats => {
+      assert.equal((stats.loggedSeconds || 0) % bucket, 0);
+      assert.equal(stats.ratio, Math.round((stats.loggedSeconds || 0) / stats.estimateSeconds * 100) / 100);
+    });
+  });
+
+  (['drop', 'bucket'] as HoursRedaction[]).forEach(hours => test(`${hours} leaves no exact logged time or ratio anywhere`, () => {
+    const numbers = hourNumbers(redact(hours));
+    EXACT_LOGGED.forEach(value => assert.ok(!numbers.includes(value), `${value} is hidden`));
+  }));
+});
+
+describe('Redactor teams', () => {
+  test('names nobody but teams, issue cards and credit drill-downs included', () => {
+    const summary = new Redactor({ people: 'team', issueKeys: 'keep', hours: 'keep' }, 'test-salt').redact(sprintSummary());
+    assert.deepEqual(referencedPeople(summary).sort(), ['Backend', 'No team', 'QA']);
+    assert.deepEqual(Object.keys(summary.people).sort(), ['Backend', 'No team', 'QA']);
+  });
+});
+
+describe('Redactor names', () => {
+  const redactor = () => new Redactor({ people: 'pseudonym', issueKeys: 'keep', hours: 'keep' }, 'test-salt');
+
+  test('leaves neither account ids nor names, only pseudonyms, Unknown and Unassigned', () => {
+    const summary = redactor().redact(sprintSummary());
+    const json = JSON.stringify(summary);
+    assert.ok(!/acc-/.test(json), 'no account ids');
+    assert.ok(!/"(Alice|Bob|Carol|Automation for Jira)"/.test(json), 'no names');
+    referencedPeople(summary).forEach(person => assert.match(person, /^(Person [0-9a-f]{8}|Unknown|Unassigned)$/));
+    assert.ok(referencedPeople(summary).includes(redactor().person('acc-alice')));
+  });
+
+  test('gives the same pseudonyms for the same salt only', () => {
+    assert.equal(redactor().person('acc-alice'), redactor().person('acc-alice'));
+    assert.notEqual(redactor().person('acc-alice'), redactor().person('acc-bob'));
+    assert.notEqual(new Redactor(DEFAULT_REDACT_CONFIG, 'other-salt').person('acc-alice'), redactor().person('acc-alice'));
+  });
+});
+
+describe('Redactor issue keys', () => {
+  const redactor = (issueKeys: IssueKeyRedaction) => new Redactor({ people: 'pseudonym', issueKeys, hours: 'keep' }, 'test-salt');
+
+  test('hashes keys within their project, keeping the fallback credit mark', () => {
+    const hashed = redactor('hash').issueKey('ABC-1');
+    assert.match(hashed, /^ABC-[0-9a-f]{8}$/);
+    assert.equal(redactor('hash').issueKey('ABC-1*'), `${hashed}*`);
+    assert.equal(redactor('strip').issueKey('ABC-1*'), 'ABC*');
+    assert.equal(redactor('keep').issueKey('ABC-1'), 'ABC-1');
+  });
+
+  test('hash leaves no real key nor issue summary behind', () => {
+    const summary = redactor('hash').redact(sprintSummary());
+    assert.ok(!/"ABC-\d+\*?"/.test(JSON.stringify(summary)), 'no real keys');
+    assert.ok(summary.issueDetails.length > 0);
+    summary.issueDetails.forEach(issue => assert.equal(issue.summary, ''));
+    assert.deepEqual(summary.completionStats[redactor('hash').person('acc-alice')].completedIssues,
+      sprintSummary().completionStats['acc-alice'].completedIssues.map(key => redactor('hash').issueKey(key)));
+  });
+
+  test('strip keeps only project keys and drops the issue cards', () => {
+    const summary = redactor('strip').redact(sprintSummary());
+    assert.deepEqual(summary.issueDetails, []);
+    summary.carryOver.forEach(issue => assert.equal(issue.key, 'ABC'));
+    summary.estimateStats.issues.forEach(issue => assert.equal(issue.key, 'ABC'));
+  });
+
+  test('keep with keep hours leaves the figures as they are', () => {
+    const original = sprintSummary();
+    const summary = redactor('keep').redact(original);
+    assert.deepEqual(Object.values(summary.timeLogged), Object.values(original.timeLogged));
+    assert.deepEqual(summary.estimateStats.total, original.estimateStats.total);
+    assert.deepEqual(summary.carryOver.map(issue => issue.key), original.carryOver.map(issue => issue.key));
+  });
+});
@@ -0,0 +1,137 @@
+import * as assert from 'node:assert/strict';
+import { after, before, describe, test } from 'node:test';
+import { execFile } from 'child_process';
+import * as fs from 'fs';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import * as os from 'os';
+import * as path from 'path';
+import { createMockJiraServer } from '../src/jira/mockServer';
+import { loadFixtures } from '../src/jira/fixtures';
+import { SiteData } from '../src/render/site';
+import { SprintSummary } from '../src/types';
+
+// Recorded from a scrum board with two closed sprints and a future one. Sprint 10 has an issue through
+// every configured transition (ABC-1), one that skipped them (ABC-2), one without status history (ABC-3),
+// one carried over into Sprint 11 (ABC-4), one moved only by automation (ABC-5) and one taken out (ABC-9).
+const FIXTURE_DIR = path.join(__dirname, 'fixtures', 'jira');
+const ROOT = path.join(__dirname, '..');
+
+// Anonymised account ids in the fixtures
+const STARTER = 'user-2a488378';
+const REVIEWER = 'user-45866368';
+const SHIPPER = 'user-3e947cbb';
+const AUTOMATION = 'user-f7da767f';
+
+interface RunResult {
+  code: number;
+  output: string;
+}
+
+// Run the CLI in a child process, as CI would, with every file it writes kept in the work directory
+function runReport(workDir: string, env: { [name: string]: string }, args: string[]): Promise<RunResult> {
+  return new Promise(resolve => {
+    execFile(process.execPath, ['--require', 'ts-node/register', path.join('src', 'index.ts'), ...args], {
+      cwd: ROOT,
+      env: {
+        ...process.env,
+        TS_NODE_TRANSPILE_ONLY: 'true',
+        JIRA_PROJECT_KEY: 'ABC',
+        JIRA_API_VERSION: '2',
+        JIRA_CACHE_DIR: path.join(workDir, 'cache'),
+        JIRA_SNAPSHOT_DIR: path.join(workDir, 'snapshots'),
+        JIRA_REPORT_FILE: path.join(workDir, 'sprint-report.html'),
+        ...env
+      },
+      timeout: 120000
+    }, (error, stdout, stderr) => {
+      resolve({ code: error ? (typeof error.code === 'number' ? error.code : 1) : 0, output: `${stdout}${stderr}` });
+    });
+  });
+}
+
+function readSite(workDir: string): SiteData {
+  return JSON.parse(fs.readFileSync(path.join(workDir, 'site', 'data', 'sprints.json'), 'utf8'));
+}
+
+function sprintNamed(site: SiteData, name: string): SprintSummary {
+  const sprint = site.sprints.find(entry => entry.name === name);
+  assert.ok(sprint, `${name} is in the site data`);
+  return sprint;
+}
+
+describe('report against the mock Jira', () => {
+  const workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'dev-board-report-'));
+  let server: http.Server;
+  let run: RunResult;
+
+  before(async () => {
+    server = createMockJiraServer(loadFixtures(FIXTURE_DIR));
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+    run = await runReport(workDir, {
+      JIRA_HOST: `http://127.0.0.1:${port}`,
+      JIRA_AUTH_METHOD: 'pat',
+      JIRA_PAT: 'mock'
+    }, ['report', '--refresh', '--no-console', '--site', path.join(workDir, 'site')]);
+  });
+
+  after(() => {
+    server.close();
+    fs.rmSync(workDir, { recursive: true, force: true });
+  });
+
+  test('fetches every sprint, the future one included', () => {
+    assert.equal(run.code, 0, run.output);
+    assert.deepEqual(readSite(workDir).sprints.map(sprint => [sprint.name, sprint.error]),
+      [['Sprint 10', undefined], ['Sprint 11', undefined], ['Sprint 12', undefined]]);
+  });
+
+  test('credits direct and fallback transitions, and Unknown when nobody can be', () => {
+    const sprint = sprintNamed(readSite(workDir), 'Sprint 10');
+    assert.equal(sprint.completedIssues, 3);
+    assert.deepEqual(sprint.completionStats[STARTER].completedIssues, ['ABC-1']);
+    assert.deepEqual(sprint.completionStats[REVIEWER].completedIssues, ['ABC-2*']);
+    assert.deepEqual(sprint.completionStats.Unknown.completedIssues, ['ABC-3*']);
+    assert.deepEqual(sprint.reviewerStats[REVIEWER].reviewedIssues, ['ABC-1']);
+    assert.deepEqual(sprint.reviewerStats[SHIPPER].reviewedIssues, ['ABC-2*']);
+    assert.deepEqual(sprint.reviewerStats.Unknown.reviewedIssues, ['ABC-3*']);
+    assert.deepEqual(sprint.shipperStats[SHIPPER].shippedIssues, ['ABC-1']);
+    assert.deepEqual(sprint.shipperStats[AUTOMATION].shippedIssues, ['ABC-5']);
+    assert.deepEqual(sprint.shipperStats.Unknown.shippedIssues, ['ABC-2*', 'ABC-3*']);
+  });
+
+  test('tracks time, spillover, carry-over and removed issues', () => {
+    const sprint = sprintNamed(readSite(workDir), 'Sprint 10');
+    assert.deepEqual(sprint.timeLogged, { [STARTER]: 10800, [REVIEWER]: 5400 });
+    assert.deepEqual(sprint.spilloverStats[STARTER].issues.map(issue => issue.key), ['ABC-4']);
+    assert.deepEqual(sprint.carryOver.map(issue => issue.key), ['ABC-4', 'ABC-9']);
+    assert.ok(sprint.issueDetails.some(issue => issue.key === 'ABC-9'), 'the removed issue is tracked');
+    assert.deepEqual(sprintNamed(readSite(workDir), 'Sprint 11').completionStats[SHIPPER].completedIssues, ['ABC-6']);
+  });
+
+  test('gives the pages the sprints by person label and added up per team', () => {
+    const site = readSite(workDir);
+    const index = site.sprints.findIndex(sprint => sprint.name === 'Sprint 10');
+    const labelled = site.report.sprints[index];
+    assert.deepEqual(Object.values(labelled.timeLogged), [10800, 5400]);
+    assert.ok(Object.keys(labelled.timeLogged).every(person => labelled.people[person] && !person.startsWith('user-')),
+      'stats and people are keyed by label');
+    // Without config/people.json nobody has a team
+    assert.deepEqual(site.report.teamSprints[index].timeLogged, { 'No team': 16200 });
+  });
+
+  test('writes the HTML report and a page per sprint', () => {
+    const html = fs.readFileSync(path.join(workDir, 'sprint-report.html'), 'utf8');
+    assert.ok(!/[A-Z_]+_PLACEHOLDER/.test(html), 'every placeholder is filled in');
+    assert.match(html, /"name": "Sprint 10"/);
+    ['index.html', 'sprints/1-10.html', 'sprints/1-11.html', 'sprints/1-12.html']
+      .forEach(page => assert.ok(fs.existsSync(path.join(workDir, 'site', page)), `${page} is written`));
+  });
+
+  test('reports again from the cache alone', async () => {
+    const offline = await runReport(workDir, {}, ['report', '--offline', '--no-console', '--no-html', '--format', 'json', '--out', path.join(workDir, 'out')]);
+    assert.equal(offline.code, 0, offline.output);
+    assert.ok(fs.readdirSync(path.join(workDir, 'out')).some(file => file.endsWith('.json')), 'the JSON export is written');
+  });
+});
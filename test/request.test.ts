@@ -0,0 +1,90 @@
+import * as assert from 'node:assert/strict';
+import { after, before, describe, test } from 'node:test';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { JiraHttpError, createJiraRequest, jiraStatusCode, retryDelayMs } from '../src/jira/request';
+
+// Answers each request with the next scripted status, then 200; Retry-After 0 keeps the retries quick
+function scriptedServer() {
+  const statuses: number[] = [];
+  const seen: Array<string | undefined> = [];
+  const server = http.createServer((request, response) => {
+    seen.push(request.headers.authorization);
+    const status = statuses.shift() || 200;
+    response.writeHead(status, { 'Content-Type': 'application/json', 'Retry-After': '0' });
+    response.end(JSON.stringify(status === 200 ? { ok: true } : { errorMessages: [`failed with ${status}`] }));
+  });
+  return { server, statuses, seen };
+}
+
+describe('createJiraRequest', () => {
+  const { server, statuses, seen } = scriptedServer();
+  let uri = '';
+  const options = () => ({ uri, json: true, auth: { bearer: 'old-token' } });
+
+  before(async () => {
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    uri = `http://127.0.0.1:${(server.address() as AddressInfo).port}/rest/api/2/search`;
+  });
+
+  after(() => server.close());
+
+  test('retries rate limits and busy gateways', async () => {
+    statuses.splice(0, statuses.length, 429, 503);
+    seen.length = 0;
+    assert.deepEqual(await createJiraRequest(2)(options()), { ok: true });
+    assert.equal(seen.length, 3);
+  });
+
+  test('gives up after the configured retries', async () => {
+    statuses.splice(0, statuses.length, 503, 503, 503);
+    seen.length = 0;
+    await assert.rejects(createJiraRequest(1)(options()), (error: unknown) => jiraStatusCode(error) === 503);
+    assert.equal(seen.length, 2);
+    statuses.length = 0;
+  });
+
+  test('does not retry requests Jira turned down', async () => {
+    statuses.splice(0, statuses.length, 400);
+    seen.length = 0;
+    await assert.rejects(createJiraRequest(3)(options()), (error: unknown) => jiraStatusCode(error) === 400);
+    assert.equal(seen.length, 1);
+  });
+
+  test('sends a 401 once more with a refreshed token, which later requests keep', async () => {
+    statuses.splice(0, statuses.length, 401);
+    seen.length = 0;
+    let refreshes = 0;
+    const request = createJiraRequest(0, undefined, async () => `new-token-${++refreshes}`);
+    assert.deepEqual(await request(options()), { ok: true });
+    assert.deepEqual(await request(options()), { ok: true });
+    assert.deepEqual(seen, ['Bearer old-token', 'Bearer new-token-1', 'Bearer new-token-1']);
+
+    statuses.splice(0, statuses.length, 401, 401);
+    await assert.rejects(request(options()), (error: unknown) => jiraStatusCode(error) === 401);
+    assert.equal(refreshes, 2);
+  });
+});
+
+describe('retryDelayMs', () => {
+  test('waits as long as Retry-After asks, up to a minute', () => {
+    assert.equal(retryDelayMs(new JiraHttpError(429, null, '7'), 0), 7000);
+    assert.equal(retryDelayMs(new JiraHttpError(429, null, '3600'), 0), 60000);
+    const date = retryDelayMs(new JiraHttpError(503, null, new Date(Date.now() + 10000).toUTCString()), 0);
+    assert.ok(date > 8000 && date <= 10000, `${date} ms`);
+  });
+
+  test('backs off exponentially with jitter otherwise', () => {
+    for (let attempt = 0; attempt < 4; attempt++) {
+      const delay = retryDelayMs(new JiraHttpError(503, null), attempt);
+      assert.ok(delay >= 500 * 2 ** attempt && delay <= 1000 * 2 ** attempt, `${delay} ms on attempt ${attempt}`);
+    }
+  });
+});
+
+describe('jiraStatusCode', () => {
+  test('reads the status back from the errors jira-client rejects with', () => {
+    assert.equal(jiraStatusCode(new Error(JSON.stringify(new JiraHttpError(404, null)))), 404);
+    assert.equal(jiraStatusCode(new Error('socket hang up')), undefined);
+  });
+});
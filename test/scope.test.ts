@@ -0,0 +1,35 @@
+import * as assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { JiraChangelog, JiraIssue } from '../src/jira/types';
+import { storyPointsAt } from '../src/metrics/scope';
+
+const FIELD = { id: 'customfield_10016', name: 'Story Points' };
+const issue = { key: 'ABC-1', fields: { customfield_10016: 8 } } as unknown as JiraIssue;
+
+// Points went 3 → 5 on March 6th and 5 → 8 on March 12th
+function histories(item: { field: string; fieldId?: string }): JiraChangelog[] {
+  return [
+    { created: '2024-03-06T10:00:00.000+0000', items: [{ ...item, from: null, fromString: '3', to: null, toString: '5' }] },
+    { created: '2024-03-12T10:00:00.000+0000', items: [{ ...item, from: null, fromString: '5', to: null, toString: '8' }] }
+  ];
+}
+
+describe('storyPointsAt', () => {
+  test('replays Cloud changes, which name the field by id', () => {
+    const changes = histories({ field: 'Story point estimate', fieldId: 'customfield_10016' });
+    assert.equal(storyPointsAt(issue, changes, FIELD, new Date('2024-03-04T09:00:00Z')), 3);
+    assert.equal(storyPointsAt(issue, changes, FIELD, new Date('2024-03-08T09:00:00Z')), 5);
+    assert.equal(storyPointsAt(issue, changes, FIELD), 8);
+  });
+
+  test('replays Server/DC changes, which only name the field by its display name', () => {
+    const changes = histories({ field: 'Story Points' });
+    assert.equal(storyPointsAt(issue, changes, FIELD, new Date('2024-03-04T09:00:00Z')), 3);
+    assert.equal(storyPointsAt(issue, changes, FIELD, new Date('2024-03-13T09:00:00Z')), 8);
+  });
+
+  test('ignores other fields, and display names when the item has an id', () => {
+    assert.equal(storyPointsAt(issue, histories({ field: 'Story Points', fieldId: 'customfield_10099' }), FIELD, new Date('2024-03-04T09:00:00Z')), 8);
+    assert.equal(storyPointsAt(issue, histories({ field: 'Business Value' }), FIELD, new Date('2024-03-04T09:00:00Z')), 8);
+  });
+});
@@ -0,0 +1,74 @@
+import * as assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import JiraClient from 'jira-client';
+import { RemovedIssueFinder } from '../src/jira/sprintIssues';
+import { JiraIssue, JiraSprint } from '../src/jira/types';
+
+const board = { id: 1, name: 'ABC board', projectKey: 'ABC' };
+const sprint10: JiraSprint = { id: 10, name: 'Sprint 10', state: 'closed', startDate: '2024-03-04T09:00:00.000Z', endDate: '2024-03-15T17:00:00.000Z' };
+const sprint11: JiraSprint = { id: 11, name: 'Sprint 11', state: 'active', startDate: '2024-03-18T09:00:00.000Z', endDate: '2024-03-29T17:00:00.000Z' };
+
+// ABC-9 was taken out of Sprint 10; ABC-7 only ever sat in the backlog
+function issue(key: string, sprintMoves: Array<[string, string]> = []): JiraIssue {
+  return {
+    key,
+    fields: {},
+    changelog: {
+      startAt: 0,
+      maxResults: sprintMoves.length,
+      total: sprintMoves.length,
+      histories: sprintMoves.map(([from, to]) => ({
+        created: '2024-03-06T10:00:00.000+0000',
+        items: [{ field: 'Sprint', fieldtype: 'custom', from, fromString: '', to, toString: '' }]
+      }))
+    }
+  } as unknown as JiraIssue;
+}
+const ISSUES = [issue('ABC-7'), issue('ABC-9', [['', '10'], ['10', '']])];
+
+// Answers searches like Jira would, failing the first changelog search when asked to
+function fakeJira(failFirstChangelogSearch = false) {
+  const searches: Array<{ jql: string; expand?: string[] }> = [];
+  let failures = failFirstChangelogSearch ? 1 : 0;
+  const jira = {
+    searchJira: async (jql: string, options: { expand?: string[] }) => {
+      searches.push({ jql, expand: options.expand });
+      const keys = jql.match(/^key in \((.*)\)$/);
+      if (keys && options.expand && failures-- > 0) throw new Error('503 Service Unavailable');
+      const issues = keys ? ISSUES.filter(entry => keys[1].split(', ').includes(entry.key)) : ISSUES;
+      return { startAt: 0, maxResults: 100, total: issues.length, issues };
+    }
+  } as unknown as JiraClient;
+  return { jira, searches };
+}
+
+describe('RemovedIssueFinder', () => {
+  test('searches keys in the sprint\'s window and fetches changelogs of the candidates only', async () => {
+    const { jira, searches } = fakeJira();
+    const removed = await new RemovedIssueFinder(jira, board).find(sprint10, ['ABC-1']);
+
+    assert.deepEqual(removed.map(entry => entry.key), ['ABC-9']);
+    assert.equal(searches[0].jql,
+      'project = "ABC" AND updated >= "2024-03-04" AND created < "2024-03-16" AND (sprint is EMPTY OR sprint != 10)');
+    assert.equal(searches[0].expand, undefined);
+    assert.deepEqual(searches[1], { jql: 'key in (ABC-7, ABC-9)', expand: ['changelog'] });
+  });
+
+  test('fetches each changelog once for all of the board\'s sprints', async () => {
+    const { jira, searches } = fakeJira();
+    const finder = new RemovedIssueFinder(jira, board);
+    await finder.find(sprint10, []);
+    assert.deepEqual(await finder.find(sprint11, []), []);
+
+    assert.equal(searches.filter(search => search.jql.startsWith('key in (ABC-7') && search.expand).length, 1);
+    assert.ok(!searches.some(search => search.jql.includes('sprint != 11') && search.jql.includes('created <')),
+      'an active sprint has no end to bound creation by');
+  });
+
+  test('searches again after a failed changelog search', async () => {
+    const { jira } = fakeJira(true);
+    const finder = new RemovedIssueFinder(jira, board);
+    await assert.rejects(finder.find(sprint10, []), /503/);
+    assert.deepEqual((await finder.find(sprint10, [])).map(entry => entry.key), ['ABC-9']);
+  });
+});